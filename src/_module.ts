@@ -1,6 +1,50 @@
 export type { Profile } from './profile';
 export { Scraper } from './scraper';
+export { ScraperPool } from './scraper-pool';
+export type {
+  ScraperPoolOptions,
+  ScraperPoolSession,
+  ScraperPoolStrategy,
+} from './scraper-pool';
+export { RateLimiter } from './rate-limit';
+export type {
+  RateLimitBudget,
+  RateLimiterOptions,
+  RateLimitScheduler,
+} from './rate-limit';
+export {
+  InvalidStateError,
+  RateLimitError,
+  SearchQueryError,
+  ThreadPostError,
+} from './errors';
+export { FileSessionStore, MemorySessionStore } from './session-store';
+export type {
+  FileSessionStoreOptions,
+  SessionStore,
+  SessionStoreOptions,
+  StoredSession,
+} from './session-store';
+export type {
+  MediaAttachment,
+  MediaData,
+  MediaUploadOptions,
+  MediaUploadProgress,
+  UploadedMedia,
+} from './media';
+export type { ListOptions } from './lists';
+export type { BulkUserActionResult, UserAction } from './relationships';
 export { SearchMode } from './search';
+export { SearchQuery } from './search-query';
+export type { SearchFilter, SearchQueryBuildOptions } from './search-query';
+export { getWeightedLength, splitThreadText } from './thread';
+export type { ThreadOptions, ThreadPart } from './thread';
+export type {
+  TimelineCheckpoint,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
+export type { QueryListsResponse, TwitterList } from './timeline-list';
 export type { QueryProfilesResponse, QueryTweetsResponse } from './timeline-v1';
 export type { Tweet } from './tweets';
 
@@ -9,12 +53,69 @@ export { SpaceParticipant } from './spaces/core/SpaceParticipant';
 export { JanusClient } from './spaces/core/JanusClient';
 export { JanusAudioSink, JanusAudioSource } from './spaces/core/JanusAudio';
 export { ChatClient } from './spaces/core/ChatClient';
+export { AudioMixer } from './spaces/core/AudioMixer';
+export type {
+  AudioMixerEvents,
+  AudioMixerOptions,
+  AudioMixerSourceOptions,
+  AudioMixerTarget,
+} from './spaces/core/AudioMixer';
+export { VoiceActivityDetector } from './spaces/core/VoiceActivityDetector';
+export type {
+  Utterance,
+  UtteranceEndReason,
+  UtteranceStart,
+  VadEvents,
+  VadOptions,
+} from './spaces/core/VoiceActivityDetector';
+export {
+  ConversationMemory,
+  FileMemoryStore,
+} from './spaces/core/ConversationMemory';
+export type {
+  ConversationMemoryOptions,
+  MemorySnapshot,
+  MemoryStore,
+  MemoryTurn,
+} from './spaces/core/ConversationMemory';
 export { Logger } from './spaces/logger';
 export { SttTtsPlugin } from './spaces/plugins/SttTtsPlugin';
+export type {
+  BargeInOptions,
+  ResponseLatency,
+  TtsInterrupted,
+} from './spaces/plugins/SttTtsPlugin';
 export { RecordToDiskPlugin } from './spaces/plugins/RecordToDiskPlugin';
 export { MonitorAudioPlugin } from './spaces/plugins/MonitorAudioPlugin';
 export { IdleMonitorPlugin } from './spaces/plugins/IdleMonitorPlugin';
 export { HlsRecordPlugin } from './spaces/plugins/HlsRecordPlugin';
+export { ModerationPlugin } from './spaces/plugins/ModerationPlugin';
+export type {
+  ModerationDecision,
+  ModerationPolicy,
+} from './spaces/plugins/ModerationPlugin';
+export { SpeakerQueuePlugin } from './spaces/plugins/SpeakerQueuePlugin';
+export type {
+  QueuedSpeaker,
+  SpeakerQueueOptions,
+  SpeakerQueueState,
+} from './spaces/plugins/SpeakerQueuePlugin';
+export type {
+  ChatModelProvider,
+  ChatTurn,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+} from './spaces/providers/types';
+export { OpenAISpeechToText } from './spaces/providers/OpenAISpeechToText';
+export type { OpenAISpeechToTextOptions } from './spaces/providers/OpenAISpeechToText';
+export { OpenAIChatModel } from './spaces/providers/OpenAIChatModel';
+export type { OpenAIChatModelOptions } from './spaces/providers/OpenAIChatModel';
+export { ElevenLabsTextToSpeech } from './spaces/providers/ElevenLabsTextToSpeech';
+export type { ElevenLabsTextToSpeechOptions } from './spaces/providers/ElevenLabsTextToSpeech';
+export { DeepgramSpeechToText } from './spaces/providers/DeepgramSpeechToText';
+export type { DeepgramSpeechToTextOptions } from './spaces/providers/DeepgramSpeechToText';
+export { GrokChatModel } from './spaces/providers/GrokChatModel';
 
 export * from './types/spaces';
 export * from './spaces/types';
+export * from './spaces/events';
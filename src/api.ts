@@ -1,6 +1,7 @@
 import { TwitterAuth } from './auth';
 import { ApiError } from './errors';
 import { Platform, PlatformExtensions } from './platform';
+import { getRateLimitEndpoint } from './rate-limit';
 import { updateCookieJar } from './requests';
 import { Headers } from 'headers-polyfill';
 
@@ -55,10 +56,26 @@ export async function requestApi<T>(
 ): Promise<RequestApiResult<T>> {
   const headers = new Headers();
   await auth.installTo(headers, url);
+  if (body) {
+    headers.set('content-type', 'application/json');
+  }
   await platform.randomizeCiphers();
 
+  const endpoint = getRateLimitEndpoint(url);
+  const scheduler = auth.rateLimitScheduler();
+
   let res: Response;
   do {
+    try {
+      // Waits only on this endpoint's budget; other endpoints keep flowing
+      await scheduler.acquire(endpoint);
+    } catch (err) {
+      if (!(err instanceof Error)) {
+        throw err;
+      }
+      return { success: false, err };
+    }
+
     try {
       res = await auth.fetch(url, {
         method,
@@ -77,24 +94,7 @@ export async function requestApi<T>(
     }
 
     await updateCookieJar(auth.cookieJar(), res.headers);
-
-    if (res.status === 429) {
-      /*
-      Known headers at this point:
-      - x-rate-limit-limit: Maximum number of requests per time period?
-      - x-rate-limit-reset: UNIX timestamp when the current rate limit will be reset.
-      - x-rate-limit-remaining: Number of requests remaining in current time period?
-      */
-      const xRateLimitRemaining = res.headers.get('x-rate-limit-remaining');
-      const xRateLimitReset = res.headers.get('x-rate-limit-reset');
-      if (xRateLimitRemaining == '0' && xRateLimitReset) {
-        const currentTime = new Date().valueOf() / 1000;
-        const timeDeltaMs = 1000 * (parseInt(xRateLimitReset) - currentTime);
-
-        // I have seen this block for 800s (~13 *minutes*)
-        await new Promise((resolve) => setTimeout(resolve, timeDeltaMs));
-      }
-    }
+    scheduler.update(endpoint, res.headers, res.status);
   } while (res.status === 429);
 
   if (!res.ok) {
@@ -0,0 +1,105 @@
+import { CookieJar } from 'tough-cookie';
+import { TwitterUserAuth } from './auth-user';
+import { MemorySessionStore, SessionStore } from './session-store';
+
+function verifyResponse(setCookie?: string) {
+  const headers = new Headers();
+  if (setCookie) {
+    headers.set('set-cookie', setCookie);
+  }
+  return new Response(
+    JSON.stringify({ id_str: '1', screen_name: 'alice', name: 'Alice' }),
+    { headers },
+  );
+}
+
+async function storeSession(store: SessionStore, cookie: string) {
+  const jar = new CookieJar();
+  await jar.setCookie(cookie, 'https://twitter.com');
+  await store.save('alice', {
+    cookieJar: await jar.serialize(),
+    savedAt: new Date().toISOString(),
+  });
+}
+
+async function storedCookies(store: SessionStore) {
+  const stored = await store.load('alice');
+  if (stored == null) {
+    return null;
+  }
+
+  const jar = await CookieJar.deserialize(stored.cookieJar);
+  const cookies = await jar.getCookies('https://twitter.com');
+  return cookies.map((cookie) => `${cookie.key}=${cookie.value}`);
+}
+
+test('user auth restores a stored session and persists cookie updates', async () => {
+  const store = new MemorySessionStore({ passphrase: 'secret' });
+  await storeSession(store, 'auth_token=old; Domain=twitter.com');
+  const fetch = jest.fn(async () =>
+    verifyResponse('ct0=fresh; Domain=twitter.com; Path=/'),
+  );
+  const auth = new TwitterUserAuth('bearer', {
+    fetch: fetch as unknown as typeof global.fetch,
+    sessionStore: store,
+  });
+
+  await expect(auth.restoreSession('alice')).resolves.toBeTruthy();
+
+  expect(await storedCookies(store)).toEqual(
+    expect.arrayContaining(['auth_token=old', 'ct0=fresh']),
+  );
+});
+
+test('user auth drops stored sessions that have expired', async () => {
+  const store = new MemorySessionStore();
+  await storeSession(store, 'auth_token=expired; Domain=twitter.com');
+  const auth = new TwitterUserAuth('bearer', {
+    fetch: (async () =>
+      new Response('Unauthorized', {
+        status: 401,
+      })) as unknown as typeof global.fetch,
+    sessionStore: store,
+  });
+
+  await expect(auth.restoreSession('alice')).resolves.toBeFalsy();
+  await expect(store.load('alice')).resolves.toBeNull();
+});
+
+test('user auth keeps stored sessions when they cannot be checked', async () => {
+  const store = new MemorySessionStore();
+  await storeSession(store, 'auth_token=valid; Domain=twitter.com');
+  const auth = new TwitterUserAuth('bearer', {
+    fetch: (async () =>
+      new Response('Over capacity', {
+        status: 503,
+      })) as unknown as typeof global.fetch,
+    sessionStore: store,
+  });
+
+  await expect(auth.restoreSession('alice')).rejects.toThrow();
+  expect(await storedCookies(store)).toEqual(['auth_token=valid']);
+});
+
+test('user auth requests do not fail when saving the session fails', async () => {
+  const store = new MemorySessionStore();
+  await storeSession(store, 'auth_token=old; Domain=twitter.com');
+  let cookie = 0;
+  const auth = new TwitterUserAuth('bearer', {
+    fetch: (async () =>
+      verifyResponse(
+        `ct0=${++cookie}; Domain=twitter.com; Path=/`,
+      )) as unknown as typeof global.fetch,
+    sessionStore: store,
+  });
+  await auth.restoreSession('alice');
+
+  jest.spyOn(store, 'save').mockRejectedValue(new Error('Disk full'));
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  try {
+    await expect(auth.isLoggedIn()).resolves.toBeTruthy();
+    expect(warn).toHaveBeenCalled();
+  } finally {
+    warn.mockRestore();
+  }
+});
@@ -1,9 +1,9 @@
 import { TwitterAuthOptions, TwitterGuestAuth } from './auth';
-import { requestApi } from './api';
+import { requestApi, RequestApiResult } from './api';
 import { CookieJar } from 'tough-cookie';
-import { updateCookieJar } from './requests';
+import { onCookieJarUpdate, updateCookieJar } from './requests';
 import { Headers } from 'headers-polyfill';
-import { TwitterApiErrorRaw } from './errors';
+import { ApiError, TwitterApiErrorRaw } from './errors';
 import { Type, type Static } from '@sinclair/typebox';
 import { Check } from '@sinclair/typebox/value';
 import * as OTPAuth from 'otpauth';
@@ -55,18 +55,28 @@ type FlowTokenResult = FlowTokenResultSuccess | { status: 'error'; err: Error };
  */
 export class TwitterUserAuth extends TwitterGuestAuth {
   private userProfile: Profile | undefined;
+  private sessionKey: string | undefined;
 
   constructor(bearerToken: string, options?: Partial<TwitterAuthOptions>) {
     super(bearerToken, options);
   }
 
   async isLoggedIn(): Promise<boolean> {
+    const res = await this.verifyCredentials();
+    return res.success && res.value;
+  }
+
+  /**
+   * Checks the session's cookies with Twitter.
+   * @returns Whether the session is logged in, or the error if the check itself failed.
+   */
+  private async verifyCredentials(): Promise<RequestApiResult<boolean>> {
     const res = await requestApi<TwitterUserAuthVerifyCredentials>(
       'https://api.twitter.com/1.1/account/verify_credentials.json',
       this,
     );
     if (!res.success) {
-      return false;
+      return isUnauthorized(res.err) ? { success: true, value: false } : res;
     }
 
     const { value: verify } = res;
@@ -74,7 +84,7 @@ export class TwitterUserAuth extends TwitterGuestAuth {
       verify as LegacyUserRaw,
       (verify as unknown as { verified: boolean }).verified,
     );
-    return verify && !verify.errors?.length;
+    return { success: true, value: !!verify && !verify.errors?.length };
   }
 
   async me(): Promise<Profile | undefined> {
@@ -95,6 +105,13 @@ export class TwitterUserAuth extends TwitterGuestAuth {
     accessToken?: string,
     accessSecret?: string,
   ): Promise<void> {
+    if (await this.restoreSession(username)) {
+      if (appKey && appSecret && accessToken && accessSecret) {
+        this.loginWithV2(appKey, appSecret, accessToken, accessSecret);
+      }
+      return;
+    }
+
     await this.updateGuestToken();
 
     let next = await this.initLogin();
@@ -136,6 +153,8 @@ export class TwitterUserAuth extends TwitterGuestAuth {
     if ('err' in next) {
       throw next.err;
     }
+
+    await this.persistSession(username);
   }
 
   async logout(): Promise<void> {
@@ -150,6 +169,76 @@ export class TwitterUserAuth extends TwitterGuestAuth {
     );
     this.deleteToken();
     this.jar = new CookieJar();
+
+    if (this.sessionKey != null) {
+      await this.options?.sessionStore?.delete(this.sessionKey);
+      delete this.sessionKey;
+    }
+  }
+
+  /**
+   * Restores a session from the configured session store, if it is still valid.
+   * A stored session is only deleted once Twitter rejects it.
+   * @param key The session key, usually the account's username.
+   * @returns `true` if a valid session was restored; otherwise `false`.
+   * @throws If the session could not be checked, e.g. on a network error or rate limit.
+   * The stored session is kept in that case.
+   */
+  async restoreSession(key: string): Promise<boolean> {
+    const store = this.options?.sessionStore;
+    if (store == null) {
+      return false;
+    }
+
+    const stored = await store.load(key);
+    if (stored == null) {
+      return false;
+    }
+
+    this.jar = await CookieJar.deserialize(stored.cookieJar);
+    const res = await this.verifyCredentials();
+    if (!res.success) {
+      this.jar = new CookieJar();
+      throw res.err;
+    }
+
+    if (res.value) {
+      await this.persistSession(key);
+      return true;
+    }
+
+    // The stored session has expired, so it is of no further use
+    await store.delete(key);
+    this.jar = new CookieJar();
+    return false;
+  }
+
+  /**
+   * Saves the session to the configured session store now, and again whenever its
+   * cookies change.
+   */
+  private async persistSession(key: string): Promise<void> {
+    const store = this.options?.sessionStore;
+    if (store == null) {
+      return;
+    }
+
+    this.sessionKey = key;
+    const jar = this.jar;
+    const save = async () => {
+      await store.save(key, {
+        cookieJar: await jar.serialize(),
+        savedAt: new Date().toISOString(),
+      });
+    };
+
+    // Cookie updates happen during unrelated requests, which shouldn't fail because of the store
+    onCookieJarUpdate(jar, () =>
+      save().catch((err) => {
+        console.warn(`Failed to save session ${key}:`, err);
+      }),
+    );
+    await save();
   }
 
   async installCsrfToken(headers: Headers): Promise<void> {
@@ -412,3 +501,10 @@ export class TwitterUserAuth extends TwitterGuestAuth {
     };
   }
 }
+
+function isUnauthorized(err: Error): boolean {
+  return (
+    err instanceof ApiError &&
+    (err.response.status === 401 || err.response.status === 403)
+  );
+}
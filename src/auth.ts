@@ -4,10 +4,14 @@ import { Headers } from 'headers-polyfill';
 import { FetchTransformOptions } from './api';
 import { TwitterApi } from 'twitter-api-v2';
 import { Profile } from './profile';
+import { RateLimiter, RateLimitScheduler } from './rate-limit';
+import type { SessionStore } from './session-store';
 
 export interface TwitterAuthOptions {
   fetch: typeof fetch;
   transform: Partial<FetchTransformOptions>;
+  rateLimitScheduler: RateLimitScheduler;
+  sessionStore: SessionStore;
 }
 
 export interface TwitterAuth {
@@ -18,6 +22,11 @@ export interface TwitterAuth {
    */
   cookieJar(): CookieJar;
 
+  /**
+   * Returns the scheduler that paces requests made with this instance.
+   */
+  rateLimitScheduler(): RateLimitScheduler;
+
   /**
    * Logs into a Twitter account using the v2 API
    */
@@ -117,6 +126,7 @@ export class TwitterGuestAuth implements TwitterAuth {
   protected guestToken?: string;
   protected guestCreatedAt?: Date;
   protected v2Client: TwitterApi | null;
+  protected scheduler: RateLimitScheduler;
 
   fetch: typeof fetch;
 
@@ -128,12 +138,17 @@ export class TwitterGuestAuth implements TwitterAuth {
     this.bearerToken = bearerToken;
     this.jar = new CookieJar();
     this.v2Client = null;
+    this.scheduler = options?.rateLimitScheduler ?? new RateLimiter();
   }
 
   cookieJar(): CookieJar {
     return this.jar;
   }
 
+  rateLimitScheduler(): RateLimitScheduler {
+    return this.scheduler;
+  }
+
   getV2Client(): TwitterApi | null {
     return this.v2Client ?? null;
   }
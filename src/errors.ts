@@ -1,3 +1,5 @@
+import type { Tweet } from './tweets';
+
 export class ApiError extends Error {
   private constructor(
     readonly response: Response,
@@ -45,3 +47,61 @@ export interface TwitterApiErrorRaw extends TwitterApiErrorExtensions {
   path?: string[];
   extensions?: TwitterApiErrorExtensions;
 }
+
+/**
+ * Thrown when a request cannot be sent because its endpoint's rate limit
+ * budget is exhausted for longer than the scheduler is willing to wait.
+ */
+export class RateLimitError extends Error {
+  constructor(readonly endpoint: string, readonly reset: Date) {
+    super(
+      `Rate limit exceeded for ${endpoint}; resets at ${reset.toISOString()}`,
+    );
+  }
+}
+
+/**
+ * Thrown when a {@link SearchQuery} is given invalid or contradictory conditions.
+ */
+export class SearchQueryError extends Error {}
+
+/**
+ * Thrown when a thread could not be posted completely.
+ */
+export class ThreadPostError extends Error {
+  constructor(
+    readonly cause: Error,
+    /**
+     * The tweets that were posted before the failure.
+     */
+    readonly postedTweets: Tweet[],
+    /**
+     * Whether all of the posted tweets were deleted again.
+     */
+    readonly rolledBack: boolean,
+  ) {
+    super(
+      `Failed to post thread after ${postedTweets.length} tweet(s): ${cause.message}`,
+    );
+  }
+}
+
+/**
+ * Thrown when a Space or SpaceParticipant operation is not allowed in its current lifecycle state.
+ */
+export class InvalidStateError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly state: string,
+    /**
+     * The states in which the operation is allowed.
+     */
+    readonly allowedStates: readonly string[],
+  ) {
+    super(
+      `Cannot ${operation} while ${state}; allowed in: ${allowedStates.join(
+        ', ',
+      )}`,
+    );
+  }
+}
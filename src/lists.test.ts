@@ -0,0 +1,65 @@
+import { getScraper } from './test-utils';
+
+test('scraper can create, edit and delete a list', async () => {
+  const scraper = await getScraper();
+
+  const list = await scraper.createList({
+    name: 'agent-twitter-client test',
+    isPrivate: true,
+  });
+  expect(list.id).toBeTruthy();
+  expect(list.isPrivate).toBeTruthy();
+
+  try {
+    const updated = await scraper.updateList(list.id, {
+      description: 'Created by the test suite',
+    });
+    expect(updated.name).toEqual('agent-twitter-client test');
+    expect(updated.description).toEqual('Created by the test suite');
+
+    const userId = await scraper.getUserIdByScreenName('elonmusk');
+    expect(userId).toBeTruthy();
+
+    await scraper.addListMember(list.id, userId);
+    const members = [];
+    for await (const profile of scraper.getListMembers(list.id, 20)) {
+      members.push(profile);
+    }
+    expect(members.map((profile) => profile.username)).toContain('elonmusk');
+
+    await scraper.removeListMember(list.id, userId);
+  } finally {
+    await scraper.deleteList(list.id);
+  }
+
+  await expect(scraper.getListById(list.id)).resolves.toBeNull();
+}, 60000);
+
+test('scraper can get lists owned by a user', async () => {
+  const scraper = await getScraper();
+  const maxLists = 5;
+
+  let nLists = 0;
+  for await (const list of scraper.getListsOwnedBy('Scobleizer', maxLists)) {
+    nLists++;
+    expect(list.id).toBeTruthy();
+    expect(list.name).toBeTruthy();
+  }
+
+  expect(nLists).toEqual(maxLists);
+});
+
+test('scraper can get list subscribers', async () => {
+  const scraper = await getScraper();
+
+  let nProfiles = 0;
+  for await (const profile of scraper.getListSubscribers(
+    '1736495155002106192',
+    10,
+  )) {
+    nProfiles++;
+    expect(profile.username).toBeTruthy();
+  }
+
+  expect(nProfiles).toBeGreaterThan(0);
+});
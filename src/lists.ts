@@ -0,0 +1,423 @@
+import { addApiFeatures, requestApi } from './api';
+import { TwitterAuth } from './auth';
+import { getUserIdByScreenName, Profile } from './profile';
+import {
+  getListTimeline,
+  getUserTimeline,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
+import {
+  ListOwnershipsTimeline,
+  ListResultRaw,
+  parseList,
+  parseListOwnershipsTimeline,
+  QueryListsResponse,
+  TwitterList,
+} from './timeline-list';
+import {
+  parseRelationshipTimeline,
+  RelationshipEntryRaw,
+  RelationshipTimeline,
+} from './timeline-relationship';
+import { QueryProfilesResponse } from './timeline-v1';
+import stringify from 'json-stable-stringify';
+
+export interface ListOptions {
+  name: string;
+  description: string;
+
+  /**
+   * Whether only the owner can see the list. Defaults to `false`.
+   */
+  isPrivate: boolean;
+}
+
+interface ListResponse {
+  data?: {
+    list?: ListResultRaw;
+  };
+}
+
+interface ListMembersTimeline {
+  data?: {
+    list?: {
+      members_timeline?: ListUsersTimelineRaw;
+      subscribers_timeline?: ListUsersTimelineRaw;
+    };
+  };
+}
+
+interface ListUsersTimelineRaw {
+  timeline?: {
+    instructions?: {
+      entries?: RelationshipEntryRaw[];
+      entry?: RelationshipEntryRaw;
+      type?: string;
+    }[];
+  };
+}
+
+/**
+ * Creates a list owned by the current user.
+ * @param options The list's name, description and visibility.
+ * @param auth The authentication object.
+ * @returns The created list.
+ */
+export async function createList(
+  options: Pick<ListOptions, 'name'> & Partial<ListOptions>,
+  auth: TwitterAuth,
+): Promise<TwitterList> {
+  const res = await sendListMutation<ListResponse>(
+    'EYg7JZU3A1eJ-wr2eygPHQ/CreateList',
+    {
+      name: options.name,
+      description: options.description ?? '',
+      isPrivate: options.isPrivate ?? false,
+    },
+    auth,
+  );
+
+  return toList(res);
+}
+
+/**
+ * Updates a list's name, description or visibility.
+ * @param listId The ID of the list.
+ * @param options The fields to change. Fields that are not set keep their current value.
+ * @param auth The authentication object.
+ * @returns The updated list.
+ */
+export async function updateList(
+  listId: string,
+  options: Partial<ListOptions>,
+  auth: TwitterAuth,
+): Promise<TwitterList> {
+  const variables: Record<string, unknown> = { listId };
+  if (options.name != null) variables.name = options.name;
+  if (options.description != null) variables.description = options.description;
+  if (options.isPrivate != null) variables.isPrivate = options.isPrivate;
+
+  await sendListMutation('dIEI1sbSAuZlxhE0ggrezA/UpdateList', variables, auth);
+
+  // The mutation does not reliably echo every field, so read the list back
+  const list = await getListById(listId, auth);
+  if (list == null) {
+    throw new Error(`List ${listId} was not found after updating it.`);
+  }
+
+  return list;
+}
+
+/**
+ * Deletes a list owned by the current user.
+ * @param listId The ID of the list.
+ * @param auth The authentication object.
+ */
+export async function deleteList(
+  listId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendListMutation('UnN9Th1BDbeLjpgjGSpL3Q/DeleteList', { listId }, auth);
+}
+
+/**
+ * Adds a user to a list.
+ * @param listId The ID of the list.
+ * @param userId The ID of the user to add.
+ * @param auth The authentication object.
+ */
+export async function addListMember(
+  listId: string,
+  userId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendListMutation(
+    'P8tyfv2_0HzofrB5f6_ugw/ListAddMember',
+    { listId, userId },
+    auth,
+  );
+}
+
+/**
+ * Removes a user from a list.
+ * @param listId The ID of the list.
+ * @param userId The ID of the user to remove.
+ * @param auth The authentication object.
+ */
+export async function removeListMember(
+  listId: string,
+  userId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendListMutation(
+    'DBZowzFN492FFkBPBptCwg/ListRemoveMember',
+    { listId, userId },
+    auth,
+  );
+}
+
+/**
+ * Subscribes the current user to a list.
+ * @param listId The ID of the list.
+ * @param auth The authentication object.
+ */
+export async function subscribeToList(
+  listId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendListMutation(
+    'FSZhTadYIsg9h_wBFwp-ag/ListSubscribe',
+    { listId },
+    auth,
+  );
+}
+
+/**
+ * Unsubscribes the current user from a list.
+ * @param listId The ID of the list.
+ * @param auth The authentication object.
+ */
+export async function unsubscribeFromList(
+  listId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendListMutation(
+    'hQI1Uu8iTZd3BZZq7Xmn8g/ListUnsubscribe',
+    { listId },
+    auth,
+  );
+}
+
+/**
+ * Fetches a list.
+ * @param listId The ID of the list.
+ * @param auth The authentication object.
+ * @returns The list, or `null` if it does not exist or is not visible to the current user.
+ */
+export async function getListById(
+  listId: string,
+  auth: TwitterAuth,
+): Promise<TwitterList | null> {
+  const res = await requestApi<ListResponse>(
+    buildListUrl('9hbYpeVBMq8-yB8slayGWQ/ListByRestId', { listId }),
+    auth,
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  const raw = res.value.data?.list;
+  return raw ? parseList(raw) : null;
+}
+
+export function getListMembers(
+  listId: string,
+  maxProfiles: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    listId,
+    maxProfiles,
+    (q, mp, c) => {
+      return fetchListMembers(q, mp, auth, c);
+    },
+    options,
+  );
+}
+
+export function getListSubscribers(
+  listId: string,
+  maxProfiles: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    listId,
+    maxProfiles,
+    (q, mp, c) => {
+      return fetchListSubscribers(q, mp, auth, c);
+    },
+    options,
+  );
+}
+
+export function getListsOwnedBy(
+  user: string,
+  maxLists: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<TwitterList> {
+  return getListTimeline(
+    user,
+    maxLists,
+    async (q, ml, c) => {
+      const userIdRes = await getUserIdByScreenName(q, auth);
+
+      if (!userIdRes.success) {
+        throw userIdRes.err;
+      }
+
+      return fetchListsOwnedBy(userIdRes.value, ml, auth, c);
+    },
+    options,
+  );
+}
+
+export async function fetchListMembers(
+  listId: string,
+  maxProfiles: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<QueryProfilesResponse> {
+  const timeline = await getListUsersTimeline(
+    'BQp2IEYkgxuSxqbTAr1e1g/ListMembers',
+    listId,
+    maxProfiles,
+    auth,
+    cursor,
+  );
+
+  return parseRelationshipTimeline(timeline);
+}
+
+export async function fetchListSubscribers(
+  listId: string,
+  maxProfiles: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<QueryProfilesResponse> {
+  const timeline = await getListUsersTimeline(
+    '74wGEkaBxrdoXakWTWMxRQ/ListSubscribers',
+    listId,
+    maxProfiles,
+    auth,
+    cursor,
+  );
+
+  return parseRelationshipTimeline(timeline);
+}
+
+export async function fetchListsOwnedBy(
+  userId: string,
+  maxLists: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<QueryListsResponse> {
+  if (maxLists > 100) {
+    maxLists = 100;
+  }
+
+  const variables: Record<string, any> = {
+    userId,
+    isListMemberTargetUserId: userId,
+    count: maxLists,
+  };
+
+  if (cursor != null && cursor != '') {
+    variables['cursor'] = cursor;
+  }
+
+  const res = await requestApi<ListOwnershipsTimeline>(
+    buildListUrl('wQcOSjSQ8NtgxIwvYl1lMg/ListOwnerships', variables),
+    auth,
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  return parseListOwnershipsTimeline(res.value);
+}
+
+async function getListUsersTimeline(
+  operation: string,
+  listId: string,
+  maxItems: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<RelationshipTimeline> {
+  if (maxItems > 50) {
+    maxItems = 50;
+  }
+
+  const variables: Record<string, any> = {
+    listId,
+    count: maxItems,
+    withSafetyModeUserFields: true,
+  };
+
+  if (cursor != null && cursor != '') {
+    variables['cursor'] = cursor;
+  }
+
+  const res = await requestApi<ListMembersTimeline>(
+    buildListUrl(operation, variables),
+    auth,
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  // List member timelines share the entry format of relationship timelines
+  const list = res.value.data?.list;
+  const timeline = list?.members_timeline ?? list?.subscribers_timeline;
+  return { data: { user: { result: { timeline } } } };
+}
+
+async function sendListMutation<T>(
+  operation: string,
+  variables: Record<string, unknown>,
+  auth: TwitterAuth,
+): Promise<T> {
+  if (!(await auth.isLoggedIn())) {
+    throw new Error('Scraper is not logged-in for managing lists.');
+  }
+
+  const [queryId] = operation.split('/');
+  const res = await requestApi<T & { errors?: { message: string }[] }>(
+    `https://twitter.com/i/api/graphql/${operation}`,
+    auth,
+    'POST',
+    undefined,
+    { variables, features: addApiFeatures({}), queryId },
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  // Mutations can fail with a 200 response that only contains errors
+  const errors = res.value?.errors;
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map((error) => error.message).join('\n'));
+  }
+
+  return res.value;
+}
+
+function buildListUrl(operation: string, variables: Record<string, any>) {
+  const features = addApiFeatures({
+    responsive_web_twitter_article_tweet_consumption_enabled: false,
+    longform_notetweets_inline_media_enabled: true,
+    responsive_web_media_download_video_enabled: false,
+  });
+
+  const params = new URLSearchParams();
+  params.set('features', stringify(features) ?? '');
+  params.set('variables', stringify(variables) ?? '');
+
+  return `https://twitter.com/i/api/graphql/${operation}?${params.toString()}`;
+}
+
+function toList(res: ListResponse): TwitterList {
+  const list = res.data?.list ? parseList(res.data.list) : null;
+  if (list == null) {
+    throw new Error('Twitter did not return the list.');
+  }
+
+  return list;
+}
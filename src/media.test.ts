@@ -0,0 +1,142 @@
+import { CookieJar } from 'tough-cookie';
+import { TwitterAuth } from './auth';
+import { MediaUploadProgress, resolveMediaIds, uploadMedia } from './media';
+
+function fakeAuth(): TwitterAuth {
+  const jar = new CookieJar();
+  return {
+    bearerToken: 'bearer',
+    cookieJar: () => jar,
+  } as unknown as TwitterAuth;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(body == null ? '' : JSON.stringify(body), { status });
+}
+
+function getCommand(init?: RequestInit) {
+  const body = init?.body;
+  if (body instanceof URLSearchParams || body instanceof FormData) {
+    return body.get('command') as string | null;
+  }
+  return null;
+}
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+test('video uploads are chunked and wait for processing', async () => {
+  const commands: (string | null)[] = [];
+  let statusChecks = 0;
+  global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+    const command = String(url).includes('command=STATUS')
+      ? 'STATUS'
+      : getCommand(init);
+    commands.push(command);
+
+    switch (command) {
+      case 'INIT':
+        return jsonResponse({ media_id_string: '42', expires_after_secs: 60 });
+      case 'APPEND':
+        return jsonResponse(null);
+      case 'FINALIZE':
+        return jsonResponse({
+          media_id_string: '42',
+          processing_info: { state: 'pending', check_after_secs: 0 },
+        });
+      default:
+        statusChecks++;
+        return jsonResponse({
+          media_id_string: '42',
+          processing_info:
+            statusChecks < 2
+              ? { state: 'in_progress', check_after_secs: 0 }
+              : { state: 'succeeded' },
+        });
+    }
+  }) as typeof fetch;
+
+  const progress: MediaUploadProgress[] = [];
+  const media = await uploadMedia(Buffer.alloc(10), 'video/mp4', fakeAuth(), {
+    chunkSize: 4,
+    onProgress: (p) => progress.push(p),
+  });
+
+  expect(media.mediaId).toEqual('42');
+  expect(commands).toEqual([
+    'INIT',
+    'APPEND',
+    'APPEND',
+    'APPEND',
+    'FINALIZE',
+    'STATUS',
+    'STATUS',
+  ]);
+  expect(
+    progress.filter((p) => p.phase === 'uploading').map((p) => p.bytesUploaded),
+  ).toEqual([4, 8, 10]);
+});
+
+test('failed chunks are retried', async () => {
+  let appendAttempts = 0;
+  global.fetch = jest.fn(
+    async (_url: RequestInfo | URL, init?: RequestInit) => {
+      switch (getCommand(init)) {
+        case 'INIT':
+          return jsonResponse({ media_id_string: '7' });
+        case 'APPEND':
+          appendAttempts++;
+          return appendAttempts === 1
+            ? jsonResponse({ errors: [] }, 503)
+            : jsonResponse(null);
+        default:
+          return jsonResponse({ media_id_string: '7' });
+      }
+    },
+  ) as typeof fetch;
+
+  const media = await uploadMedia(Buffer.alloc(4), 'image/gif', fakeAuth(), {
+    retryDelayMs: 0,
+  });
+
+  expect(media.mediaId).toEqual('7');
+  expect(appendAttempts).toEqual(2);
+});
+
+test('rejected requests are not retried', async () => {
+  let initAttempts = 0;
+  global.fetch = jest.fn(async () => {
+    initAttempts++;
+    return jsonResponse({ errors: [{ code: 324 }] }, 400);
+  }) as typeof fetch;
+
+  await expect(
+    uploadMedia(Buffer.alloc(4), 'video/mp4', fakeAuth(), { retryDelayMs: 0 }),
+  ).rejects.toThrow('Response status: 400');
+  expect(initAttempts).toEqual(1);
+});
+
+test('alt text is attached and uploaded media is reused', async () => {
+  const urls: string[] = [];
+  global.fetch = jest.fn(async (url: RequestInfo | URL) => {
+    urls.push(String(url));
+    return jsonResponse({ media_id_string: '9' });
+  }) as typeof fetch;
+
+  const ids = await resolveMediaIds(
+    [
+      { data: Buffer.alloc(4), mediaType: 'image/png', altText: 'A cat' },
+      { mediaId: '1' },
+    ],
+    fakeAuth(),
+  );
+
+  expect(ids).toEqual(['9', '1']);
+  expect(urls).toEqual([
+    'https://upload.twitter.com/1.1/media/upload.json',
+    'https://upload.twitter.com/1.1/media/metadata/create.json',
+  ]);
+});
@@ -0,0 +1,409 @@
+import { TwitterAuth } from './auth';
+import { ApiError } from './errors';
+import { updateCookieJar } from './requests';
+
+const uploadUrl = 'https://upload.twitter.com/1.1/media/upload.json';
+const metadataUrl = 'https://upload.twitter.com/1.1/media/metadata/create.json';
+
+/**
+ * The largest still image that can be uploaded in a single request.
+ */
+const maxSimpleUploadBytes = 5 * 1024 * 1024;
+
+/**
+ * Media to upload.
+ */
+export interface MediaData {
+  data: Buffer;
+
+  /**
+   * The media's mime type, e.g. `image/png` or `video/mp4`.
+   */
+  mediaType: string;
+
+  /**
+   * A description of the media for people who cannot see it.
+   */
+  altText?: string;
+}
+
+/**
+ * Media that has already been uploaded, and can be attached to any number of
+ * tweets and direct messages until it expires.
+ */
+export interface UploadedMedia {
+  mediaId: string;
+
+  /**
+   * When the uploaded media can no longer be attached, if known.
+   */
+  expiresAt?: Date;
+}
+
+/**
+ * Media to attach to a tweet or direct message, either to be uploaded or
+ * reused from an earlier upload.
+ */
+export type MediaAttachment = MediaData | UploadedMedia;
+
+export interface MediaUploadProgress {
+  /**
+   * `uploading` while bytes are being sent, and `processing` while Twitter
+   * transcodes the media after the upload.
+   */
+  phase: 'uploading' | 'processing';
+
+  bytesUploaded: number;
+  totalBytes: number;
+
+  /**
+   * The server-side processing progress from 0 to 100, if reported.
+   */
+  processingPercent?: number;
+}
+
+export interface MediaUploadOptions {
+  /**
+   * A description of the media for people who cannot see it.
+   */
+  altText: string;
+
+  /**
+   * Whether the media will be attached to a tweet or a direct message.
+   * Defaults to `tweet`.
+   */
+  target: 'tweet' | 'dm';
+
+  /**
+   * The size of each uploaded chunk in bytes. Defaults to 4 MiB; Twitter
+   * accepts chunks of up to 5 MiB.
+   */
+  chunkSize: number;
+
+  /**
+   * How many times each request is retried before the upload fails. Only
+   * network errors, rate limits and server errors are retried. Defaults to `3`.
+   */
+  maxRetries: number;
+
+  /**
+   * The delay before the first retry, in milliseconds. It doubles after
+   * every attempt. Defaults to one second.
+   */
+  retryDelayMs: number;
+
+  /**
+   * Called as the upload progresses.
+   */
+  onProgress: (progress: MediaUploadProgress) => void;
+}
+
+interface MediaUploadResponse {
+  media_id_string: string;
+  expires_after_secs?: number;
+  processing_info?: MediaProcessingInfo;
+}
+
+interface MediaProcessingInfo {
+  state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+  check_after_secs?: number;
+  progress_percent?: number;
+  error?: {
+    code: number;
+    name: string;
+    message: string;
+  };
+}
+
+/**
+ * Uploads media so that it can be attached to tweets or direct messages.
+ * Videos, GIFs and large images use the chunked INIT/APPEND/FINALIZE protocol,
+ * and the returned promise resolves once Twitter has finished processing them.
+ * @param data The media's contents.
+ * @param mediaType The media's mime type, e.g. `image/png` or `video/mp4`.
+ * @param auth The authentication object.
+ * @param options Options for alt text, chunking, retries and progress reporting.
+ * @returns The uploaded media, whose ID can be reused across multiple tweets.
+ */
+export async function uploadMedia(
+  data: Buffer,
+  mediaType: string,
+  auth: TwitterAuth,
+  options?: Partial<MediaUploadOptions>,
+): Promise<UploadedMedia> {
+  const target = options?.target ?? 'tweet';
+  const isStillImage =
+    mediaType.startsWith('image/') && mediaType !== 'image/gif';
+
+  const uploaded =
+    isStillImage && data.length <= maxSimpleUploadBytes && target === 'tweet'
+      ? await uploadSimple(data, mediaType, auth, options)
+      : await uploadChunked(data, mediaType, auth, options);
+
+  if (options?.altText) {
+    await retry(() => createMediaMetadata(uploaded.mediaId, auth, options), {
+      maxRetries: options.maxRetries,
+      retryDelayMs: options.retryDelayMs,
+    });
+  }
+
+  return uploaded;
+}
+
+/**
+ * Uploads any media that has not been uploaded yet.
+ * @param media The media to attach.
+ * @param auth The authentication object.
+ * @param options Upload options shared by all media. Each media's own alt text takes precedence.
+ * @returns The media IDs, in the same order as the media.
+ */
+export async function resolveMediaIds(
+  media: MediaAttachment[],
+  auth: TwitterAuth,
+  options?: Partial<MediaUploadOptions>,
+): Promise<string[]> {
+  return await Promise.all(
+    media.map(async (attachment) => {
+      if ('mediaId' in attachment) {
+        return attachment.mediaId;
+      }
+
+      const { mediaId } = await uploadMedia(
+        attachment.data,
+        attachment.mediaType,
+        auth,
+        { ...options, altText: attachment.altText ?? options?.altText },
+      );
+
+      return mediaId;
+    }),
+  );
+}
+
+async function uploadSimple(
+  data: Buffer,
+  mediaType: string,
+  auth: TwitterAuth,
+  options?: Partial<MediaUploadOptions>,
+): Promise<UploadedMedia> {
+  const response = await retry(
+    async () => {
+      const form = new FormData();
+      form.append('media', new Blob([data], { type: mediaType }));
+      return await sendUploadRequest(auth, uploadUrl, {
+        method: 'POST',
+        body: form,
+      });
+    },
+    { maxRetries: options?.maxRetries, retryDelayMs: options?.retryDelayMs },
+  );
+
+  options?.onProgress?.({
+    phase: 'uploading',
+    bytesUploaded: data.length,
+    totalBytes: data.length,
+  });
+
+  return toUploadedMedia(response);
+}
+
+async function uploadChunked(
+  data: Buffer,
+  mediaType: string,
+  auth: TwitterAuth,
+  options?: Partial<MediaUploadOptions>,
+): Promise<UploadedMedia> {
+  const retryOptions = {
+    maxRetries: options?.maxRetries,
+    retryDelayMs: options?.retryDelayMs,
+  };
+
+  const initParams = new URLSearchParams();
+  initParams.append('command', 'INIT');
+  initParams.append('media_type', mediaType);
+  initParams.append('total_bytes', data.length.toString());
+  initParams.append(
+    'media_category',
+    getMediaCategory(mediaType, options?.target ?? 'tweet'),
+  );
+  if (options?.target === 'dm') {
+    initParams.append('shared', 'true');
+  }
+
+  const init = await retry(
+    () =>
+      sendUploadRequest(auth, uploadUrl, { method: 'POST', body: initParams }),
+    retryOptions,
+  );
+  const mediaId = init.media_id_string;
+
+  const chunkSize = options?.chunkSize ?? 4 * 1024 * 1024;
+  let segmentIndex = 0;
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    const chunk = data.subarray(offset, offset + chunkSize);
+    await retry(async () => {
+      const form = new FormData();
+      form.append('command', 'APPEND');
+      form.append('media_id', mediaId);
+      form.append('segment_index', segmentIndex.toString());
+      form.append('media', new Blob([chunk]));
+      await sendUploadRequest(auth, uploadUrl, { method: 'POST', body: form });
+    }, retryOptions);
+
+    segmentIndex++;
+    options?.onProgress?.({
+      phase: 'uploading',
+      bytesUploaded: offset + chunk.length,
+      totalBytes: data.length,
+    });
+  }
+
+  const finalizeParams = new URLSearchParams();
+  finalizeParams.append('command', 'FINALIZE');
+  finalizeParams.append('media_id', mediaId);
+
+  const finalized = await retry(
+    () =>
+      sendUploadRequest(auth, uploadUrl, {
+        method: 'POST',
+        body: finalizeParams,
+      }),
+    retryOptions,
+  );
+
+  let processingInfo = finalized.processing_info;
+  while (processingInfo != null && processingInfo.state !== 'succeeded') {
+    if (processingInfo.state === 'failed') {
+      throw new Error(
+        processingInfo.error?.message ??
+          `Processing of media ${mediaId} failed`,
+      );
+    }
+
+    options?.onProgress?.({
+      phase: 'processing',
+      bytesUploaded: data.length,
+      totalBytes: data.length,
+      processingPercent: processingInfo.progress_percent,
+    });
+
+    await sleep((processingInfo.check_after_secs ?? 5) * 1000);
+
+    const statusParams = new URLSearchParams();
+    statusParams.append('command', 'STATUS');
+    statusParams.append('media_id', mediaId);
+
+    const status = await retry(
+      () =>
+        sendUploadRequest(auth, `${uploadUrl}?${statusParams.toString()}`, {
+          method: 'GET',
+        }),
+      retryOptions,
+    );
+    processingInfo = status.processing_info;
+  }
+
+  return toUploadedMedia(finalized);
+}
+
+async function createMediaMetadata(
+  mediaId: string,
+  auth: TwitterAuth,
+  options: Partial<MediaUploadOptions>,
+) {
+  const altText = options.altText as string;
+  await sendUploadRequest(auth, metadataUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      media_id: mediaId,
+      alt_text: { text: altText.slice(0, 1000) },
+    }),
+  });
+}
+
+async function sendUploadRequest(
+  auth: TwitterAuth,
+  url: string,
+  init: { method: string; body?: BodyInit; headers?: Record<string, string> },
+): Promise<MediaUploadResponse> {
+  const cookies = await auth.cookieJar().getCookies(url);
+  const xCsrfToken = cookies.find((cookie) => cookie.key === 'ct0');
+  const headers = new Headers({
+    authorization: `Bearer ${(auth as any).bearerToken}`,
+    cookie: await auth.cookieJar().getCookieString(url),
+    'x-csrf-token': xCsrfToken?.value as string,
+    ...init.headers,
+  });
+
+  const response = await fetch(url, { ...init, headers });
+
+  await updateCookieJar(auth.cookieJar(), response.headers);
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response);
+  }
+
+  // APPEND and metadata requests respond without a body
+  const text = await response.text();
+  return text ? JSON.parse(text) : {};
+}
+
+function toUploadedMedia(response: MediaUploadResponse): UploadedMedia {
+  return {
+    mediaId: response.media_id_string,
+    expiresAt:
+      response.expires_after_secs != null
+        ? new Date(Date.now() + response.expires_after_secs * 1000)
+        : undefined,
+  };
+}
+
+function getMediaCategory(mediaType: string, target: 'tweet' | 'dm'): string {
+  if (mediaType === 'image/gif') {
+    return `${target}_gif`;
+  }
+
+  if (mediaType.startsWith('video/')) {
+    return `${target}_video`;
+  }
+
+  return `${target}_image`;
+}
+
+async function retry<T>(
+  request: () => Promise<T>,
+  options: { maxRetries?: number; retryDelayMs?: number },
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? 3;
+  let delay = options.retryDelayMs ?? 1000;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (attempt >= maxRetries || !isRetryable(err)) {
+        throw err;
+      }
+
+      await sleep(delay);
+      delay *= 2;
+    }
+  }
+}
+
+/**
+ * Whether a failed upload request may succeed when sent again. fetch rejects with a
+ * TypeError when the request never got a response.
+ */
+function isRetryable(err: unknown): boolean {
+  if (err instanceof ApiError) {
+    const status = err.response.status;
+    return status === 429 || status >= 500;
+  }
+
+  return err instanceof TypeError;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,4 +1,5 @@
 import { TwitterAuth } from './auth';
+import { MediaAttachment, resolveMediaIds } from './media';
 import { updateCookieJar } from './requests';
 
 export interface DirectMessage {
@@ -278,6 +279,7 @@ export async function sendDirectMessage(
   auth: TwitterAuth,
   conversation_id: string,
   text: string,
+  media?: MediaAttachment,
 ): Promise<SendDirectMessageResponse> {
   if (!auth.isLoggedIn()) {
     throw new Error('Authentication required to send direct messages');
@@ -302,7 +304,7 @@ export async function sendDirectMessage(
     'x-csrf-token': xCsrfToken?.value as string,
   });
 
-  const payload = {
+  const payload: Record<string, any> = {
     conversation_id: `${conversation_id}`,
     recipient_ids: false,
     text: text,
@@ -312,6 +314,11 @@ export async function sendDirectMessage(
     dm_users: false,
   };
 
+  if (media) {
+    const [mediaId] = await resolveMediaIds([media], auth, { target: 'dm' });
+    payload.media_id = mediaId;
+  }
+
   const response = await fetch(messageDmUrl, {
     method: 'POST',
     headers,
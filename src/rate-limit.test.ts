@@ -0,0 +1,115 @@
+import { RateLimitError } from './errors';
+import { getRateLimitEndpoint, RateLimiter } from './rate-limit';
+
+function headersOf(values: Record<string, string>) {
+  return new Headers(values);
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('rate limiter keys endpoints by graphql operation or path', () => {
+  expect(
+    getRateLimitEndpoint(
+      'https://twitter.com/i/api/graphql/E3opETHurmVJflFsUBVuUQ/UserTweets?variables=%7B%7D',
+    ),
+  ).toEqual('UserTweets');
+  expect(
+    getRateLimitEndpoint(
+      'https://api.twitter.com/1.1/account/verify_credentials.json',
+    ),
+  ).toEqual('/1.1/account/verify_credentials.json');
+});
+
+test('rate limiter only holds back the exhausted endpoint', async () => {
+  const limiter = new RateLimiter();
+  const reset = Math.floor(Date.now() / 1000) + 60;
+  limiter.update(
+    'UserTweets',
+    headersOf({
+      'x-rate-limit-limit': '50',
+      'x-rate-limit-remaining': '0',
+      'x-rate-limit-reset': `${reset}`,
+    }),
+    429,
+  );
+
+  let throttledDone = false;
+  const throttled = limiter.acquire('UserTweets').then(() => {
+    throttledDone = true;
+  });
+
+  await limiter.acquire('SearchTimeline');
+  expect(throttledDone).toBeFalsy();
+
+  jest.advanceTimersByTime(60 * 1000);
+  await throttled;
+  expect(throttledDone).toBeTruthy();
+});
+
+test('rate limiter dispatches higher priority requests first', async () => {
+  const limiter = new RateLimiter();
+  limiter.update(
+    'Followers',
+    headersOf({
+      'x-rate-limit-limit': '50',
+      'x-rate-limit-remaining': '0',
+      'x-rate-limit-reset': `${Math.floor(Date.now() / 1000) + 10}`,
+    }),
+    200,
+  );
+
+  const order: string[] = [];
+  const low = limiter.acquire('Followers', 0).then(() => order.push('low'));
+  const high = limiter.acquire('Followers', 10).then(() => order.push('high'));
+
+  jest.advanceTimersByTime(10 * 1000);
+  await Promise.all([low, high]);
+  expect(order).toEqual(['high', 'low']);
+});
+
+test('rate limiter rejects requests that would wait too long', async () => {
+  const limiter = new RateLimiter({ maxWaitMs: 1000 });
+  limiter.update(
+    'UserTweets',
+    headersOf({
+      'x-rate-limit-remaining': '0',
+      'x-rate-limit-reset': `${Math.floor(Date.now() / 1000) + 900}`,
+    }),
+    429,
+  );
+
+  await expect(limiter.acquire('UserTweets')).rejects.toBeInstanceOf(
+    RateLimitError,
+  );
+});
+
+test('rate limiter reports known budgets', () => {
+  const limiter = new RateLimiter();
+  const reset = Math.floor(Date.now() / 1000) + 900;
+  limiter.update(
+    'UserTweets',
+    headersOf({
+      'x-rate-limit-limit': '50',
+      'x-rate-limit-remaining': '49',
+      'x-rate-limit-reset': `${reset}`,
+    }),
+    200,
+  );
+
+  expect(limiter.getStatus()).toEqual([
+    {
+      endpoint: 'UserTweets',
+      limit: 50,
+      remaining: 49,
+      reset: new Date(reset * 1000),
+      queued: 0,
+    },
+  ]);
+});
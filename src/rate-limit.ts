@@ -0,0 +1,301 @@
+import { RateLimitError } from './errors';
+
+/**
+ * The rate limit budget of a single API endpoint, as last reported by the
+ * `x-rate-limit-*` response headers.
+ */
+export interface RateLimitBudget {
+  /**
+   * The endpoint this budget applies to, e.g. `UserTweets` or
+   * `/1.1/account/verify_credentials.json`.
+   */
+  endpoint: string;
+
+  /**
+   * The maximum number of requests allowed in the current window.
+   */
+  limit: number;
+
+  /**
+   * The number of requests remaining in the current window.
+   */
+  remaining: number;
+
+  /**
+   * The time at which the current window resets.
+   */
+  reset: Date;
+
+  /**
+   * The number of requests waiting for this endpoint's budget.
+   */
+  queued: number;
+}
+
+/**
+ * Minimal view of response headers consumed by the scheduler.
+ */
+export interface RateLimitHeaders {
+  get(name: string): string | null;
+}
+
+/**
+ * Schedules requests against per-endpoint rate limit budgets. Requests to an
+ * exhausted endpoint wait for that endpoint's window to reset, without blocking
+ * requests to any other endpoint.
+ *
+ * A custom implementation can be provided to {@link Scraper} through
+ * `ScraperOptions.rateLimitScheduler`, for example to share budgets between processes.
+ */
+export interface RateLimitScheduler {
+  /**
+   * Waits until a request to the given endpoint may be sent.
+   * @param endpoint The endpoint the request will be sent to.
+   * @param priority The request priority. Higher priorities are dispatched first.
+   * @throws {@link RateLimitError} if the request would have to wait too long.
+   */
+  acquire(endpoint: string, priority?: number): Promise<void>;
+
+  /**
+   * Updates the budget of an endpoint from a response.
+   * @param endpoint The endpoint the request was sent to.
+   * @param headers The response headers.
+   * @param status The response status code.
+   */
+  update(endpoint: string, headers: RateLimitHeaders, status: number): void;
+
+  /**
+   * Returns the known budgets of all endpoints.
+   */
+  getStatus(): RateLimitBudget[];
+}
+
+export interface RateLimiterOptions {
+  /**
+   * Default priorities by endpoint. Endpoints that are not listed use `0`.
+   */
+  priorities: Record<string, number>;
+
+  /**
+   * The longest time, in milliseconds, a request may wait for its endpoint to
+   * become available. Requests that would wait longer are rejected with a
+   * {@link RateLimitError}. Defaults to waiting indefinitely.
+   */
+  maxWaitMs: number;
+
+  /**
+   * The time, in milliseconds, to back off after a 429 response that does not
+   * specify when the rate limit resets. Defaults to one minute.
+   */
+  fallbackBackoffMs: number;
+
+  /**
+   * When an endpoint's remaining budget drops to this value or below, requests
+   * are spread evenly across the rest of the window instead of being sent in a
+   * burst. Set to `0` to disable spreading. Defaults to `5`.
+   */
+  spreadThreshold: number;
+}
+
+interface PendingRequest {
+  priority: number;
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+interface EndpointState {
+  limit?: number;
+  remaining?: number;
+  reset?: number;
+  lastDispatchedAt: number;
+  queue: PendingRequest[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The default {@link RateLimitScheduler}. Keeps an in-memory, prioritized queue
+ * for every endpoint and dispatches requests as their endpoint's budget allows.
+ */
+export class RateLimiter implements RateLimitScheduler {
+  private readonly endpoints = new Map<string, EndpointState>();
+  private readonly options: RateLimiterOptions;
+
+  constructor(options?: Partial<RateLimiterOptions>) {
+    this.options = {
+      priorities: options?.priorities ?? {},
+      maxWaitMs: options?.maxWaitMs ?? Infinity,
+      fallbackBackoffMs: options?.fallbackBackoffMs ?? 60 * 1000,
+      spreadThreshold: options?.spreadThreshold ?? 5,
+    };
+  }
+
+  acquire(endpoint: string, priority?: number): Promise<void> {
+    const state = this.getState(endpoint);
+    const wait = this.getWaitTime(state, Date.now());
+    if (wait > this.options.maxWaitMs) {
+      return Promise.reject(
+        new RateLimitError(endpoint, new Date(Date.now() + wait)),
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const request: PendingRequest = {
+        priority: priority ?? this.options.priorities[endpoint] ?? 0,
+        resolve,
+        reject,
+      };
+
+      // Keep the queue ordered by priority, FIFO within the same priority
+      const index = state.queue.findIndex(
+        (pending) => pending.priority < request.priority,
+      );
+      if (index === -1) {
+        state.queue.push(request);
+      } else {
+        state.queue.splice(index, 0, request);
+      }
+
+      this.drain(endpoint);
+    });
+  }
+
+  update(endpoint: string, headers: RateLimitHeaders, status: number): void {
+    const state = this.getState(endpoint);
+    const limit = parseHeader(headers, 'x-rate-limit-limit');
+    const remaining = parseHeader(headers, 'x-rate-limit-remaining');
+    const reset = parseHeader(headers, 'x-rate-limit-reset');
+
+    if (limit != null) state.limit = limit;
+    if (remaining != null) state.remaining = remaining;
+    if (reset != null) state.reset = reset * 1000;
+
+    if (status === 429) {
+      state.remaining = 0;
+      if (reset == null || state.reset == null || state.reset <= Date.now()) {
+        const retryAfter = parseHeader(headers, 'retry-after');
+        state.reset =
+          Date.now() +
+          (retryAfter != null
+            ? retryAfter * 1000
+            : this.options.fallbackBackoffMs);
+      }
+    }
+
+    this.drain(endpoint);
+  }
+
+  getStatus(): RateLimitBudget[] {
+    const budgets: RateLimitBudget[] = [];
+    for (const [endpoint, state] of this.endpoints) {
+      if (state.reset == null) continue;
+      budgets.push({
+        endpoint,
+        limit: state.limit ?? state.remaining ?? 0,
+        remaining: state.remaining ?? 0,
+        reset: new Date(state.reset),
+        queued: state.queue.length,
+      });
+    }
+
+    return budgets;
+  }
+
+  private getState(endpoint: string): EndpointState {
+    let state = this.endpoints.get(endpoint);
+    if (state == null) {
+      state = { lastDispatchedAt: 0, queue: [] };
+      this.endpoints.set(endpoint, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Returns how long the next request to an endpoint needs to wait, in milliseconds.
+   */
+  private getWaitTime(state: EndpointState, now: number): number {
+    if (state.reset == null || state.remaining == null) {
+      return 0;
+    }
+
+    if (state.reset <= now) {
+      // The window has passed; the next response will tell us the new budget
+      state.remaining = state.limit ?? state.remaining;
+      delete state.reset;
+      return 0;
+    }
+
+    if (state.remaining <= 0) {
+      return state.reset - now;
+    }
+
+    if (state.remaining <= this.options.spreadThreshold) {
+      const interval = (state.reset - now) / (state.remaining + 1);
+      return Math.max(0, state.lastDispatchedAt + interval - now);
+    }
+
+    return 0;
+  }
+
+  private drain(endpoint: string) {
+    const state = this.getState(endpoint);
+    if (state.timer != null) {
+      clearTimeout(state.timer);
+      delete state.timer;
+    }
+
+    while (state.queue.length > 0) {
+      const now = Date.now();
+      const wait = this.getWaitTime(state, now);
+      if (wait > this.options.maxWaitMs) {
+        const err = new RateLimitError(endpoint, new Date(now + wait));
+        for (const request of state.queue.splice(0)) {
+          request.reject(err);
+        }
+        return;
+      }
+
+      if (wait > 0) {
+        state.timer = setTimeout(() => {
+          delete state.timer;
+          this.drain(endpoint);
+        }, wait);
+        return;
+      }
+
+      const request = state.queue.shift() as PendingRequest;
+      state.lastDispatchedAt = now;
+      if (state.remaining != null) {
+        state.remaining--;
+      }
+
+      request.resolve();
+    }
+  }
+}
+
+/**
+ * Derives the rate limit bucket of a request URL. GraphQL requests are keyed by
+ * their operation name, and REST requests by their path.
+ * @param url The request URL.
+ * @returns The endpoint name.
+ */
+export function getRateLimitEndpoint(url: string): string {
+  const { pathname } = new URL(url);
+  const graphqlMatch = pathname.match(/\/graphql\/[^/]+\/([^/]+)$/);
+  if (graphqlMatch) {
+    return graphqlMatch[1];
+  }
+
+  return pathname;
+}
+
+function parseHeader(headers: RateLimitHeaders, name: string) {
+  const value = headers.get(name);
+  if (value == null) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
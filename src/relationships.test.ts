@@ -57,3 +57,29 @@ test('scraper can get profile following', async () => {
 
   expect(nProfiles).toEqual(maxProfiles);
 });
+
+test('scraper can mute and unmute users in bulk', async () => {
+  const scraper = await getScraper();
+  const usernames = ['elonmusk', 'this_user_does_not_exist_123'];
+
+  const muted = await scraper.bulkUserAction(usernames, 'mute');
+  expect(muted.map((result) => result.success)).toEqual([true, false]);
+
+  const mutedProfiles = [];
+  for await (const profile of scraper.getMutedUsers(50)) {
+    mutedProfiles.push(profile);
+  }
+  expect(
+    mutedProfiles.some((profile) => profile.username === 'elonmusk'),
+  ).toBeTruthy();
+
+  const unmuted = await scraper.bulkUserAction(['elonmusk'], 'unmute');
+  expect(unmuted[0].success).toBeTruthy();
+}, 60000);
+
+test('scraper can block and unblock a user', async () => {
+  const scraper = await getScraper();
+
+  await expect(scraper.blockUser('elonmusk')).resolves.not.toThrow();
+  await expect(scraper.unblockUser('elonmusk')).resolves.not.toThrow();
+}, 30000);
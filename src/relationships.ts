@@ -3,8 +3,13 @@ import { Headers } from 'headers-polyfill';
 import { TwitterAuth } from './auth';
 import { Profile, getUserIdByScreenName } from './profile';
 import { QueryProfilesResponse } from './timeline-v1';
-import { getUserTimeline } from './timeline-async';
 import {
+  getUserTimeline,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
+import {
+  RelationshipEntryRaw,
   RelationshipTimeline,
   parseRelationshipTimeline,
 } from './timeline-relationship';
@@ -14,20 +19,62 @@ export function getFollowing(
   userId: string,
   maxProfiles: number,
   auth: TwitterAuth,
-): AsyncGenerator<Profile, void> {
-  return getUserTimeline(userId, maxProfiles, (q, mt, c) => {
-    return fetchProfileFollowing(q, mt, auth, c);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    userId,
+    maxProfiles,
+    (q, mt, c) => {
+      return fetchProfileFollowing(q, mt, auth, c);
+    },
+    options,
+  );
 }
 
 export function getFollowers(
   userId: string,
   maxProfiles: number,
   auth: TwitterAuth,
-): AsyncGenerator<Profile, void> {
-  return getUserTimeline(userId, maxProfiles, (q, mt, c) => {
-    return fetchProfileFollowers(q, mt, auth, c);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    userId,
+    maxProfiles,
+    (q, mt, c) => {
+      return fetchProfileFollowers(q, mt, auth, c);
+    },
+    options,
+  );
+}
+
+export function getBlockedUsers(
+  maxProfiles: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    '',
+    maxProfiles,
+    (_q, mt, c) => {
+      return fetchBlockedUsers(mt, auth, c);
+    },
+    options,
+  );
+}
+
+export function getMutedUsers(
+  maxProfiles: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    '',
+    maxProfiles,
+    (_q, mt, c) => {
+      return fetchMutedUsers(mt, auth, c);
+    },
+    options,
+  );
 }
 
 export async function fetchProfileFollowing(
@@ -62,6 +109,36 @@ export async function fetchProfileFollowers(
   return parseRelationshipTimeline(timeline);
 }
 
+export async function fetchBlockedUsers(
+  maxProfiles: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<QueryProfilesResponse> {
+  const timeline = await getViewerRelationshipTimeline(
+    'h52d1F7dumWGE1tJAhQBpg/BlockedAccountsAll',
+    maxProfiles,
+    auth,
+    cursor,
+  );
+
+  return parseRelationshipTimeline(timeline);
+}
+
+export async function fetchMutedUsers(
+  maxProfiles: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<QueryProfilesResponse> {
+  const timeline = await getViewerRelationshipTimeline(
+    '-G9eXTmseyiSenbqjrEG6w/MutedAccounts',
+    maxProfiles,
+    auth,
+    cursor,
+  );
+
+  return parseRelationshipTimeline(timeline);
+}
+
 async function getFollowingTimeline(
   userId: string,
   maxItems: number,
@@ -158,6 +235,74 @@ async function getFollowersTimeline(
   return res.value;
 }
 
+interface ViewerRelationshipTimeline {
+  data?: {
+    viewer?: {
+      timeline?: {
+        timeline?: {
+          instructions?: {
+            entries?: RelationshipEntryRaw[];
+            entry?: RelationshipEntryRaw;
+            type?: string;
+          }[];
+        };
+      };
+    };
+  };
+}
+
+async function getViewerRelationshipTimeline(
+  operation: string,
+  maxItems: number,
+  auth: TwitterAuth,
+  cursor?: string,
+): Promise<RelationshipTimeline> {
+  if (!(await auth.isLoggedIn())) {
+    throw new Error('Scraper is not logged-in for blocked or muted users.');
+  }
+
+  if (maxItems > 50) {
+    maxItems = 50;
+  }
+
+  const variables: Record<string, any> = {
+    count: maxItems,
+    includePromotedContent: false,
+  };
+
+  const features = addApiFeatures({
+    responsive_web_twitter_article_tweet_consumption_enabled: false,
+    tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled:
+      true,
+    longform_notetweets_inline_media_enabled: true,
+    responsive_web_media_download_video_enabled: false,
+  });
+
+  if (cursor != null && cursor != '') {
+    variables['cursor'] = cursor;
+  }
+
+  const params = new URLSearchParams();
+  params.set('features', stringify(features) ?? '');
+  params.set('variables', stringify(variables) ?? '');
+
+  const res = await requestApi<ViewerRelationshipTimeline>(
+    `https://twitter.com/i/api/graphql/${operation}?${params.toString()}`,
+    auth,
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  // The viewer's timelines share the entry format of other users' relationship timelines
+  return {
+    data: {
+      user: { result: { timeline: res.value.data?.viewer?.timeline } },
+    },
+  };
+}
+
 export async function followUser(
   username: string,
   auth: TwitterAuth,
@@ -219,4 +364,167 @@ export async function followUser(
       'Content-Type': 'application/json',
     },
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Unfollows a user.
+ * @param username The screen name of the user to unfollow.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the user is unfollowed.
+ */
+export async function unfollowUser(
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendUserAction('friendships/destroy', username, auth);
+}
+
+/**
+ * Blocks a user.
+ * @param username The screen name of the user to block.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the user is blocked.
+ */
+export async function blockUser(
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendUserAction('blocks/create', username, auth);
+}
+
+/**
+ * Unblocks a user.
+ * @param username The screen name of the user to unblock.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the user is unblocked.
+ */
+export async function unblockUser(
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendUserAction('blocks/destroy', username, auth);
+}
+
+/**
+ * Mutes a user.
+ * @param username The screen name of the user to mute.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the user is muted.
+ */
+export async function muteUser(
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendUserAction('mutes/users/create', username, auth);
+}
+
+/**
+ * Unmutes a user.
+ * @param username The screen name of the user to unmute.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the user is unmuted.
+ */
+export async function unmuteUser(
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendUserAction('mutes/users/destroy', username, auth);
+}
+
+/**
+ * An action that can be applied to many users at once with {@link bulkUserAction}.
+ */
+export type UserAction =
+  | 'follow'
+  | 'unfollow'
+  | 'block'
+  | 'unblock'
+  | 'mute'
+  | 'unmute';
+
+/**
+ * The outcome of a {@link UserAction} for a single user.
+ */
+export type BulkUserActionResult = { username: string } & (
+  | { success: true }
+  | { success: false; err: Error }
+);
+
+const userActions: Record<
+  UserAction,
+  (username: string, auth: TwitterAuth) => Promise<unknown>
+> = {
+  follow: followUser,
+  unfollow: unfollowUser,
+  block: blockUser,
+  unblock: unblockUser,
+  mute: muteUser,
+  unmute: unmuteUser,
+};
+
+/**
+ * Applies an action to each of the given users, one at a time. A failure for
+ * one user does not stop the action from being applied to the others.
+ * @param usernames The screen names of the users.
+ * @param action The action to apply.
+ * @param auth The authentication object.
+ * @returns The outcome for each user, in the same order as the usernames.
+ */
+export async function bulkUserAction(
+  usernames: string[],
+  action: UserAction,
+  auth: TwitterAuth,
+): Promise<BulkUserActionResult[]> {
+  const results: BulkUserActionResult[] = [];
+  for (const username of usernames) {
+    try {
+      await userActions[action](username, auth);
+      results.push({ username, success: true });
+    } catch (err) {
+      results.push({
+        username,
+        success: false,
+        err: err instanceof Error ? err : new Error(String(err)),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Sends a REST v1.1 request that acts on a single user.
+ * @param endpoint The endpoint path, e.g. `blocks/create`.
+ * @param username The screen name of the user.
+ * @param auth The authentication object.
+ */
+async function sendUserAction(
+  endpoint: string,
+  username: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  if (!(await auth.isLoggedIn())) {
+    throw new Error('Must be logged in to manage users');
+  }
+
+  const userIdResult = await getUserIdByScreenName(username, auth);
+  if (!userIdResult.success) {
+    throw new Error(`Failed to get user ID: ${userIdResult.err.message}`);
+  }
+
+  const params = new URLSearchParams({
+    include_profile_interstitial_type: '1',
+    skip_status: 'true',
+    user_id: userIdResult.value,
+  });
+
+  const res = await requestApi(
+    `https://api.twitter.com/1.1/${endpoint}.json?${params.toString()}`,
+    auth,
+    'POST',
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+}
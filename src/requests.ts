@@ -2,6 +2,25 @@ import { Cookie, CookieJar } from 'tough-cookie';
 import setCookie from 'set-cookie-parser';
 import type { Headers as HeadersPolyfill } from 'headers-polyfill';
 
+const cookieJarListeners = new WeakMap<CookieJar, () => Promise<void>>();
+
+/**
+ * Registers a callback that runs whenever {@link updateCookieJar} changes the given cookie jar.
+ * Only one callback is kept per cookie jar.
+ * @param cookieJar The cookie jar to watch.
+ * @param listener The callback, or `undefined` to remove the current one.
+ */
+export function onCookieJarUpdate(
+  cookieJar: CookieJar,
+  listener: (() => Promise<void>) | undefined,
+) {
+  if (listener) {
+    cookieJarListeners.set(cookieJar, listener);
+  } else {
+    cookieJarListeners.delete(cookieJar);
+  }
+}
+
 /**
  * Updates a cookie jar with the Set-Cookie headers from the provided Headers instance.
  * @param cookieJar The cookie jar to update.
@@ -11,6 +30,7 @@ export async function updateCookieJar(
   cookieJar: CookieJar,
   headers: Headers | HeadersPolyfill,
 ) {
+  let updated = false;
   const setCookieHeader = headers.get('set-cookie');
   if (setCookieHeader) {
     const cookies = setCookie.splitCookiesString(setCookieHeader);
@@ -20,13 +40,19 @@ export async function updateCookieJar(
         cookie,
         `${cookie.secure ? 'https' : 'http'}://${cookie.domain}${cookie.path}`,
       );
+      updated = true;
     }
   } else if (typeof document !== 'undefined') {
     for (const cookie of document.cookie.split(';')) {
       const hardCookie = Cookie.parse(cookie);
       if (hardCookie) {
         await cookieJar.setCookie(hardCookie, document.location.toString());
+        updated = true;
       }
     }
   }
+
+  if (updated) {
+    await cookieJarListeners.get(cookieJar)?.();
+  }
 }
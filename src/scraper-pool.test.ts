@@ -0,0 +1,105 @@
+import { TwitterAuth } from './auth';
+import { RateLimitError } from './errors';
+import { ScraperPool } from './scraper-pool';
+
+function fakeAuth(): TwitterAuth {
+  return {} as TwitterAuth;
+}
+
+test('scraper pool rotates read requests round-robin', async () => {
+  const pool = new ScraperPool();
+  const a = fakeAuth();
+  const b = fakeAuth();
+  pool.addSession('a', a);
+  pool.addSession('b', b);
+
+  const used: TwitterAuth[] = [];
+  for (let i = 0; i < 4; i++) {
+    await pool.withReadSession(async (auth) => {
+      used.push(auth);
+    });
+  }
+
+  expect(used).toEqual([a, b, a, b]);
+});
+
+test('scraper pool prefers the least-loaded session', async () => {
+  const pool = new ScraperPool({ strategy: 'least-loaded' });
+  const a = fakeAuth();
+  const b = fakeAuth();
+  pool.addSession('a', a);
+  pool.addSession('b', b);
+
+  let release!: () => void;
+  const busy = pool.withReadSession(
+    () => new Promise<void>((resolve) => (release = resolve)),
+  );
+
+  const used = await pool.withReadSession(async (auth) => auth);
+  expect(used).toBe(b);
+
+  release();
+  await busy;
+});
+
+test('scraper pool benches rate-limited sessions and retries elsewhere', async () => {
+  const pool = new ScraperPool();
+  const limited = fakeAuth();
+  const healthy = fakeAuth();
+  pool.addSession('limited', limited);
+  pool.addSession('healthy', healthy);
+
+  const reset = new Date(Date.now() + 60 * 1000);
+  const result = await pool.withReadSession(async (auth) => {
+    if (auth === limited) {
+      throw new RateLimitError('UserTweets', reset);
+    }
+    return 'ok';
+  });
+
+  expect(result).toEqual('ok');
+  const limitedSession = pool
+    .getSessions()
+    .find((session) => session.id === 'limited');
+  expect(limitedSession?.cooldownUntil).toEqual(reset);
+
+  const next = await pool.withReadSession(async (auth) => auth);
+  expect(next).toBe(healthy);
+});
+
+test('scraper pool does not retry unrelated errors', async () => {
+  const pool = new ScraperPool();
+  pool.addSession('a', fakeAuth());
+  pool.addSession('b', fakeAuth());
+
+  const calls = jest.fn().mockRejectedValue(new Error('User not found.'));
+  await expect(pool.withReadSession(calls)).rejects.toThrow('User not found.');
+  expect(calls).toHaveBeenCalledTimes(1);
+});
+
+test('scraper pool requires a pinned write session', async () => {
+  const pool = new ScraperPool();
+  pool.addSession('a', fakeAuth());
+
+  await expect(pool.likeTweet('1')).rejects.toThrow();
+  expect(() => pool.setWriteSession('missing')).toThrow();
+});
+
+test('scraper pool sessions neither wait nor spread requests by default', async () => {
+  const pool = new ScraperPool({ rateLimit: { fallbackBackoffMs: 1000 } });
+  pool.addGuestSession('guest');
+  const auth = await pool.withReadSession(async (auth) => auth);
+  const scheduler = auth.rateLimitScheduler();
+
+  const reset = `${Math.ceil(Date.now() / 1000) + 60}`;
+  const headers = new Headers({
+    'x-rate-limit-limit': '50',
+    'x-rate-limit-remaining': '2',
+    'x-rate-limit-reset': reset,
+  });
+  scheduler.update('UserTweets', headers, 200);
+
+  await scheduler.acquire('UserTweets');
+  await scheduler.acquire('UserTweets');
+  await expect(scheduler.acquire('UserTweets')).rejects.toThrow(RateLimitError);
+});
@@ -0,0 +1,548 @@
+import { Cookie } from 'tough-cookie';
+import { bearerToken, FetchTransformOptions, RequestApiResult } from './api';
+import { TwitterAuth, TwitterAuthOptions, TwitterGuestAuth } from './auth';
+import { TwitterUserAuth } from './auth-user';
+import { ApiError, RateLimitError } from './errors';
+import { MediaAttachment } from './media';
+import { getProfile, getUserIdByScreenName, Profile } from './profile';
+import { RateLimiter, RateLimiterOptions } from './rate-limit';
+import {
+  fetchProfileFollowers,
+  fetchProfileFollowing,
+  followUser,
+} from './relationships';
+import { fetchSearchProfiles, fetchSearchTweets, SearchMode } from './search';
+import { resolveSearchQuery, SearchQuery } from './search-query';
+import {
+  getTweetTimeline,
+  getUserTimeline,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
+import { QueryProfilesResponse, QueryTweetsResponse } from './timeline-v1';
+import {
+  createCreateTweetRequest,
+  fetchTweets,
+  getTweet,
+  getTweetAnonymous,
+  likeTweet,
+  retweet,
+  Tweet,
+} from './tweets';
+
+const twUrl = 'https://twitter.com';
+
+/**
+ * How the pool picks a session for read requests.
+ * - `round-robin`: Cycle through available sessions in the order they were added.
+ * - `least-loaded`: Pick the available session with the fewest requests in flight.
+ */
+export type ScraperPoolStrategy = 'round-robin' | 'least-loaded';
+
+export interface ScraperPoolOptions {
+  /**
+   * The session selection strategy for read requests. Defaults to `round-robin`.
+   */
+  strategy: ScraperPoolStrategy;
+
+  /**
+   * How long, in milliseconds, a session is benched after an authentication error.
+   * Rate-limited sessions are benched until their rate limit resets. Defaults to 15 minutes.
+   */
+  cooldownMs: number;
+
+  /**
+   * Options for the rate limiter of each session. By default, sessions do not wait for
+   * exhausted rate limits, so that requests move on to another session instead.
+   * Spreading is disabled by default too, as a session that would have to wait for
+   * its next spread slot is benched until then. Options given here are merged with
+   * these defaults.
+   */
+  rateLimit: Partial<RateLimiterOptions>;
+
+  /**
+   * An alternative fetch function, used by every session in the pool.
+   */
+  fetch: typeof fetch;
+
+  /**
+   * Request and response transforms, used by every session in the pool.
+   */
+  transform: Partial<FetchTransformOptions>;
+}
+
+/**
+ * The state of a single session in a {@link ScraperPool}.
+ */
+export interface ScraperPoolSession {
+  id: string;
+  auth: TwitterAuth;
+
+  /**
+   * The number of requests currently running on this session.
+   */
+  inFlight: number;
+
+  /**
+   * The time until which this session receives no requests, if it is cooling down.
+   */
+  cooldownUntil?: Date;
+
+  /**
+   * The error that caused the most recent cooldown.
+   */
+  lastError?: Error;
+}
+
+/**
+ * Spreads read requests across several Twitter sessions and benches sessions
+ * that get rate-limited or logged out. Write requests always go through a single,
+ * pinned session.
+ */
+export class ScraperPool {
+  private readonly sessions: ScraperPoolSession[] = [];
+  private nextIndex = 0;
+  private writeSessionId?: string;
+
+  /**
+   * Creates a new, empty ScraperPool.
+   */
+  constructor(private readonly options?: Partial<ScraperPoolOptions>) {}
+
+  /**
+   * Adds an existing authentication session to the pool.
+   *
+   * The session keeps its own rate limiter, so the pool's `rateLimit`, `fetch` and
+   * `transform` options don't apply to it. With the default rate limiter, a session
+   * waits for exhausted rate limits instead of being benched, which holds up the
+   * requests routed to it. To have it behave like the pool's other sessions, create it
+   * with a {@link RateLimiter} whose `maxWaitMs` and `spreadThreshold` are 0.
+   * @param id A unique name for the session, such as the account's username.
+   * @param auth The session.
+   */
+  public addSession(id: string, auth: TwitterAuth): void {
+    if (this.sessions.some((session) => session.id === id)) {
+      throw new Error(`Session ${id} already exists in the pool.`);
+    }
+
+    this.sessions.push({ id, auth, inFlight: 0 });
+  }
+
+  /**
+   * Adds a logged-out session to the pool.
+   * @param id A unique name for the session.
+   */
+  public addGuestSession(id: string): void {
+    this.addSession(
+      id,
+      new TwitterGuestAuth(bearerToken, this.getAuthOptions()),
+    );
+  }
+
+  /**
+   * Adds a session restored from the cookies of a previous login.
+   * @param id A unique name for the session, such as the account's username.
+   * @param cookies The cookies of the session.
+   */
+  public async addCookieSession(
+    id: string,
+    cookies: (string | Cookie)[],
+  ): Promise<void> {
+    const auth = new TwitterUserAuth(bearerToken, this.getAuthOptions());
+    for (const cookie of cookies) {
+      await auth.cookieJar().setCookie(cookie, twUrl);
+    }
+
+    this.addSession(id, auth);
+  }
+
+  /**
+   * Logs into a Twitter account and adds the session to the pool.
+   * @param id A unique name for the session, such as the account's username.
+   * @param username The username of the Twitter account to login with.
+   * @param password The password of the Twitter account to login with.
+   * @param email The email to log in with, if you have email confirmation enabled.
+   * @param twoFactorSecret The secret to generate two factor authentication tokens with, if you have two factor authentication enabled.
+   */
+  public async addLoginSession(
+    id: string,
+    username: string,
+    password: string,
+    email?: string,
+    twoFactorSecret?: string,
+  ): Promise<void> {
+    const auth = new TwitterUserAuth(bearerToken, this.getAuthOptions());
+    await auth.login(username, password, email, twoFactorSecret);
+    this.addSession(id, auth);
+  }
+
+  /**
+   * Removes a session from the pool.
+   * @param id The name of the session.
+   */
+  public removeSession(id: string): void {
+    const index = this.sessions.findIndex((session) => session.id === id);
+    if (index !== -1) {
+      this.sessions.splice(index, 1);
+    }
+
+    if (this.writeSessionId === id) {
+      delete this.writeSessionId;
+    }
+  }
+
+  /**
+   * Returns the state of every session in the pool.
+   */
+  public getSessions(): ScraperPoolSession[] {
+    return this.sessions.map((session) => ({ ...session }));
+  }
+
+  /**
+   * Pins write requests (tweets, likes, follows, ...) to a session.
+   * @param id The name of the session.
+   */
+  public setWriteSession(id: string): void {
+    if (!this.sessions.some((session) => session.id === id)) {
+      throw new Error(`Session ${id} does not exist in the pool.`);
+    }
+
+    this.writeSessionId = id;
+  }
+
+  /**
+   * Runs a read request on an available session. If the session is rate-limited or its
+   * authentication fails, it is benched and the request is retried on another session.
+   * @param request The request to run.
+   * @returns The result of the request.
+   */
+  public async withReadSession<T>(
+    request: (auth: TwitterAuth) => Promise<T>,
+  ): Promise<T> {
+    let lastError: Error | undefined;
+    for (let attempt = 0; attempt < this.sessions.length; attempt++) {
+      const session = this.pickSession();
+      if (session == null) {
+        break;
+      }
+
+      session.inFlight++;
+      try {
+        return await request(session.auth);
+      } catch (err) {
+        if (!(err instanceof Error) || !this.benchOnError(session, err)) {
+          throw err;
+        }
+        lastError = err;
+      } finally {
+        session.inFlight--;
+      }
+    }
+
+    throw lastError ?? new Error('No sessions are available in the pool.');
+  }
+
+  /**
+   * Fetches a Twitter profile.
+   * @param username The Twitter username of the profile to fetch, without an `@` at the beginning.
+   * @returns The requested {@link Profile}.
+   */
+  public getProfile(username: string): Promise<Profile> {
+    return this.withReadSession(async (auth) =>
+      this.handleResponse(await getProfile(username, auth)),
+    );
+  }
+
+  /**
+   * Fetches a single tweet.
+   * @param id The ID of the tweet to fetch.
+   * @returns The {@link Tweet} object, or `null` if it couldn't be fetched.
+   */
+  public getTweet(id: string): Promise<Tweet | null> {
+    return this.withReadSession((auth) =>
+      auth instanceof TwitterUserAuth
+        ? getTweet(id, auth)
+        : getTweetAnonymous(id, auth),
+    );
+  }
+
+  /**
+   * Fetches tweets from a Twitter user. Every page may be fetched by a different session.
+   * @param user The user whose tweets should be returned.
+   * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of tweets from the provided user.
+   */
+  public getTweets(
+    user: string,
+    maxTweets = 200,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetTimeline(
+      user,
+      maxTweets,
+      (q, mt, c) =>
+        this.withReadSession(async (auth) => {
+          const userId = this.handleResponse(
+            await getUserIdByScreenName(q, auth),
+          );
+          return fetchTweets(userId, mt, c, auth);
+        }),
+      options,
+    );
+  }
+
+  /**
+   * Fetches tweets from a Twitter user using their ID. Every page may be fetched by a
+   * different session.
+   * @param userId The user whose tweets should be returned.
+   * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of tweets from the provided user.
+   */
+  public getTweetsByUserId(
+    userId: string,
+    maxTweets = 200,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetTimeline(
+      userId,
+      maxTweets,
+      (q, mt, c) => this.withReadSession((auth) => fetchTweets(q, mt, c, auth)),
+      options,
+    );
+  }
+
+  /**
+   * Fetches tweets from Twitter. Every page may be fetched by a different session.
+   * @param query The search query. Any Twitter-compatible query format, or a {@link SearchQuery}, can be used.
+   * @param maxTweets The maximum number of tweets to return.
+   * @param searchMode The category filter to apply to the search. Defaults to `Top`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of tweets matching the provided filters.
+   */
+  public searchTweets(
+    query: string | SearchQuery,
+    maxTweets: number,
+    searchMode: SearchMode = SearchMode.Top,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetTimeline(
+      resolveSearchQuery(query),
+      maxTweets,
+      (q, mt, c) => this.fetchSearchTweets(q, mt, searchMode, c),
+      options,
+    );
+  }
+
+  /**
+   * Fetches a page of tweets from Twitter.
+   * @param query The search query. Any Twitter-compatible query format, or a {@link SearchQuery}, can be used.
+   * @param maxTweets The maximum number of tweets to return.
+   * @param searchMode The category filter to apply to the search.
+   * @param cursor The search cursor, which can be passed into further requests for more results.
+   * @returns A page of results, containing a cursor that can be used in further requests.
+   */
+  public fetchSearchTweets(
+    query: string | SearchQuery,
+    maxTweets: number,
+    searchMode: SearchMode,
+    cursor?: string,
+  ): Promise<QueryTweetsResponse> {
+    return this.withReadSession((auth) =>
+      fetchSearchTweets(query, maxTweets, searchMode, auth, cursor),
+    );
+  }
+
+  /**
+   * Fetches profiles from Twitter. Every page may be fetched by a different session.
+   * @param query The search query. Any Twitter-compatible query format can be used.
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of profiles matching the provided query.
+   */
+  public searchProfiles(
+    query: string,
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getUserTimeline(
+      query,
+      maxProfiles,
+      (q, mp, c) =>
+        this.withReadSession((auth) => fetchSearchProfiles(q, mp, auth, c)),
+      options,
+    );
+  }
+
+  /**
+   * Fetch the profiles that follow a user. Every page may be fetched by a different session.
+   * @param userId The user whose followers should be returned
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of profiles following the provided user.
+   */
+  public getFollowers(
+    userId: string,
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getUserTimeline(
+      userId,
+      maxProfiles,
+      (q, mp, c) =>
+        this.withReadSession(
+          (auth): Promise<QueryProfilesResponse> =>
+            fetchProfileFollowers(q, mp, auth, c),
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Fetch the profiles a user is following. Every page may be fetched by a different session.
+   * @param userId The user whose following should be returned
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of following profiles for the provided user.
+   */
+  public getFollowing(
+    userId: string,
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getUserTimeline(
+      userId,
+      maxProfiles,
+      (q, mp, c) =>
+        this.withReadSession(
+          (auth): Promise<QueryProfilesResponse> =>
+            fetchProfileFollowing(q, mp, auth, c),
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Sends a tweet from the pinned write session.
+   * @param text The text of the tweet
+   * @param replyToTweetId The id of the tweet to reply to
+   * @param mediaData Optional media to upload, or media IDs from earlier uploads
+   * @returns The response from the Twitter API.
+   */
+  public async sendTweet(
+    text: string,
+    replyToTweetId?: string,
+    mediaData?: MediaAttachment[],
+  ) {
+    return await createCreateTweetRequest(
+      text,
+      this.getWriteSession().auth,
+      replyToTweetId,
+      mediaData,
+    );
+  }
+
+  /**
+   * Likes a tweet from the pinned write session.
+   * @param tweetId The ID of the tweet to like.
+   */
+  public async likeTweet(tweetId: string): Promise<void> {
+    await likeTweet(tweetId, this.getWriteSession().auth);
+  }
+
+  /**
+   * Retweets a tweet from the pinned write session.
+   * @param tweetId The ID of the tweet to retweet.
+   */
+  public async retweet(tweetId: string): Promise<void> {
+    await retweet(tweetId, this.getWriteSession().auth);
+  }
+
+  /**
+   * Follows a user from the pinned write session.
+   * @param userName The username of the user to follow.
+   */
+  public async followUser(userName: string): Promise<void> {
+    await followUser(userName, this.getWriteSession().auth);
+  }
+
+  private getWriteSession(): ScraperPoolSession {
+    const session = this.sessions.find(
+      (session) => session.id === this.writeSessionId,
+    );
+    if (session == null) {
+      throw new Error(
+        'No write session is pinned. Call ScraperPool#setWriteSession first.',
+      );
+    }
+
+    return session;
+  }
+
+  private pickSession(): ScraperPoolSession | undefined {
+    const now = new Date();
+    const available = this.sessions.filter(
+      (session) =>
+        session.cooldownUntil == null || session.cooldownUntil <= now,
+    );
+    for (const session of available) {
+      delete session.cooldownUntil;
+    }
+
+    if (available.length === 0) {
+      return undefined;
+    }
+
+    if (this.options?.strategy === 'least-loaded') {
+      return available.reduce((best, session) =>
+        session.inFlight < best.inFlight ? session : best,
+      );
+    }
+
+    const session = available[this.nextIndex % available.length];
+    this.nextIndex = (this.nextIndex + 1) % available.length;
+    return session;
+  }
+
+  /**
+   * Benches a session if the error means it cannot currently serve requests.
+   * @returns `true` if the session was benched and the request may be retried.
+   */
+  private benchOnError(session: ScraperPoolSession, err: Error): boolean {
+    if (err instanceof RateLimitError) {
+      session.cooldownUntil = err.reset;
+    } else if (
+      err instanceof ApiError &&
+      (err.response.status === 401 || err.response.status === 403)
+    ) {
+      const cooldownMs = this.options?.cooldownMs ?? 15 * 60 * 1000;
+      session.cooldownUntil = new Date(Date.now() + cooldownMs);
+    } else {
+      return false;
+    }
+
+    session.lastError = err;
+    return true;
+  }
+
+  private getAuthOptions(): Partial<TwitterAuthOptions> {
+    return {
+      fetch: this.options?.fetch,
+      transform: this.options?.transform,
+      rateLimitScheduler: new RateLimiter({
+        maxWaitMs: 0,
+        spreadThreshold: 0,
+        ...this.options?.rateLimit,
+      }),
+    };
+  }
+
+  private handleResponse<T>(res: RequestApiResult<T>): T {
+    if (!res.success) {
+      throw res.err;
+    }
+
+    return res.value;
+  }
+}
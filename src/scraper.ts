@@ -28,6 +28,16 @@ import {
   getFollowing,
   getFollowers,
   followUser,
+  unfollowUser,
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  getBlockedUsers,
+  getMutedUsers,
+  bulkUserAction,
+  BulkUserActionResult,
+  UserAction,
 } from './relationships';
 import { QueryProfilesResponse, QueryTweetsResponse } from './timeline-v1';
 import { getTrends } from './trends';
@@ -53,6 +63,12 @@ import {
   createQuoteTweetRequest,
   likeTweet,
   retweet,
+  deleteTweet,
+  unlikeTweet,
+  unretweet,
+  bookmarkTweet,
+  removeBookmark,
+  fetchBookmarks,
   createCreateNoteTweetRequest,
   createCreateLongTweetRequest,
   getArticle,
@@ -101,6 +117,32 @@ import {
   GrokChatOptions,
   GrokChatResponse,
 } from './grok';
+import {
+  addListMember,
+  createList,
+  deleteList,
+  getListById,
+  getListMembers,
+  getListsOwnedBy,
+  getListSubscribers,
+  ListOptions,
+  removeListMember,
+  subscribeToList,
+  unsubscribeFromList,
+  updateList,
+} from './lists';
+import {
+  MediaAttachment,
+  MediaUploadOptions,
+  UploadedMedia,
+  uploadMedia,
+} from './media';
+import { RateLimitBudget, RateLimiter, RateLimitScheduler } from './rate-limit';
+import { SearchQuery } from './search-query';
+import { SessionStore } from './session-store';
+import { sendThread, ThreadOptions, ThreadPart } from './thread';
+import { TimelineGenerator, TimelineOptions } from './timeline-async';
+import { TwitterList } from './timeline-list';
 
 const twUrl = 'https://twitter.com';
 const UserTweetsUrl =
@@ -118,6 +160,18 @@ export interface ScraperOptions {
    * proxy requests through other hosts, for example.
    */
   transform: Partial<FetchTransformOptions>;
+
+  /**
+   * The scheduler used to pace requests against Twitter's per-endpoint rate limits. This is
+   * shared by every session of the scraper. Defaults to an in-memory {@link RateLimiter}.
+   */
+  rateLimitScheduler: RateLimitScheduler;
+
+  /**
+   * Where logged-in sessions are persisted. When set, {@link Scraper.login} resumes a stored
+   * session for the same username if it is still valid, and keeps the stored cookies up to date.
+   */
+  sessionStore: SessionStore;
 }
 
 /**
@@ -128,6 +182,7 @@ export class Scraper {
   private auth!: TwitterAuth;
   private authTrends!: TwitterAuth;
   private token: string;
+  private readonly rateLimitScheduler: RateLimitScheduler;
 
   /**
    * Creates a new Scraper object.
@@ -136,6 +191,7 @@ export class Scraper {
    */
   constructor(private readonly options?: Partial<ScraperOptions>) {
     this.token = bearerToken;
+    this.rateLimitScheduler = options?.rateLimitScheduler ?? new RateLimiter();
     this.useGuestAuth();
   }
 
@@ -181,36 +237,40 @@ export class Scraper {
 
   /**
    * Fetches tweets from Twitter.
-   * @param query The search query. Any Twitter-compatible query format can be used.
+   * @param query The search query. Any Twitter-compatible query format, or a {@link SearchQuery}, can be used.
    * @param maxTweets The maximum number of tweets to return.
    * @param includeReplies Whether or not replies should be included in the response.
    * @param searchMode The category filter to apply to the search. Defaults to `Top`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets matching the provided filters.
    */
   public searchTweets(
-    query: string,
+    query: string | SearchQuery,
     maxTweets: number,
     searchMode: SearchMode = SearchMode.Top,
-  ): AsyncGenerator<Tweet, void> {
-    return searchTweets(query, maxTweets, searchMode, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return searchTweets(query, maxTweets, searchMode, this.auth, options);
   }
 
   /**
    * Fetches profiles from Twitter.
    * @param query The search query. Any Twitter-compatible query format can be used.
    * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets matching the provided filter(s).
    */
   public searchProfiles(
     query: string,
     maxProfiles: number,
-  ): AsyncGenerator<Profile, void> {
-    return searchProfiles(query, maxProfiles, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return searchProfiles(query, maxProfiles, this.auth, options);
   }
 
   /**
    * Fetches tweets from Twitter.
-   * @param query The search query. Any Twitter-compatible query format can be used.
+   * @param query The search query. Any Twitter-compatible query format, or a {@link SearchQuery}, can be used.
    * @param maxTweets The maximum number of tweets to return.
    * @param includeReplies Whether or not replies should be included in the response.
    * @param searchMode The category filter to apply to the search. Defaults to `Top`.
@@ -218,7 +278,7 @@ export class Scraper {
    * @returns A page of results, containing a cursor that can be used in further requests.
    */
   public fetchSearchTweets(
-    query: string,
+    query: string | SearchQuery,
     maxTweets: number,
     searchMode: SearchMode,
     cursor?: string,
@@ -256,30 +316,154 @@ export class Scraper {
     return fetchListTweets(listId, maxTweets, cursor, this.auth);
   }
 
+  /**
+   * Creates a list owned by the current user.
+   * @param options The list's name, and optionally its description and visibility.
+   * @returns The created list.
+   */
+  public createList(
+    options: Pick<ListOptions, 'name'> & Partial<ListOptions>,
+  ): Promise<TwitterList> {
+    return createList(options, this.auth);
+  }
+
+  /**
+   * Updates a list's name, description or visibility.
+   * @param listId The ID of the list.
+   * @param options The fields to change. Fields that are not set keep their current value.
+   * @returns The updated list.
+   */
+  public updateList(
+    listId: string,
+    options: Partial<ListOptions>,
+  ): Promise<TwitterList> {
+    return updateList(listId, options, this.auth);
+  }
+
+  /**
+   * Deletes a list owned by the current user.
+   * @param listId The ID of the list.
+   */
+  public deleteList(listId: string): Promise<void> {
+    return deleteList(listId, this.auth);
+  }
+
+  /**
+   * Adds a user to a list.
+   * @param listId The ID of the list.
+   * @param userId The ID of the user to add.
+   */
+  public addListMember(listId: string, userId: string): Promise<void> {
+    return addListMember(listId, userId, this.auth);
+  }
+
+  /**
+   * Removes a user from a list.
+   * @param listId The ID of the list.
+   * @param userId The ID of the user to remove.
+   */
+  public removeListMember(listId: string, userId: string): Promise<void> {
+    return removeListMember(listId, userId, this.auth);
+  }
+
+  /**
+   * Subscribes the current user to a list.
+   * @param listId The ID of the list.
+   */
+  public subscribeToList(listId: string): Promise<void> {
+    return subscribeToList(listId, this.auth);
+  }
+
+  /**
+   * Unsubscribes the current user from a list.
+   * @param listId The ID of the list.
+   */
+  public unsubscribeFromList(listId: string): Promise<void> {
+    return unsubscribeFromList(listId, this.auth);
+  }
+
+  /**
+   * Fetches a list.
+   * @param listId The ID of the list.
+   * @returns The list, or `null` if it does not exist or is not visible to the current user.
+   */
+  public getListById(listId: string): Promise<TwitterList | null> {
+    return getListById(listId, this.auth);
+  }
+
+  /**
+   * Fetches the members of a list.
+   * @param listId The ID of the list.
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of the list's members.
+   */
+  public getListMembers(
+    listId: string,
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getListMembers(listId, maxProfiles, this.auth, options);
+  }
+
+  /**
+   * Fetches the subscribers of a list.
+   * @param listId The ID of the list.
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of the list's subscribers.
+   */
+  public getListSubscribers(
+    listId: string,
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getListSubscribers(listId, maxProfiles, this.auth, options);
+  }
+
+  /**
+   * Fetches the lists owned by a user.
+   * @param user The screen name of the user.
+   * @param maxLists The maximum number of lists to return. Defaults to `100`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of the user's lists.
+   */
+  public getListsOwnedBy(
+    user: string,
+    maxLists = 100,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<TwitterList> {
+    return getListsOwnedBy(user, maxLists, this.auth, options);
+  }
+
   /**
    * Fetch the profiles a user is following
    * @param userId The user whose following should be returned
    * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of following profiles for the provided user.
    */
   public getFollowing(
     userId: string,
     maxProfiles: number,
-  ): AsyncGenerator<Profile, void> {
-    return getFollowing(userId, maxProfiles, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getFollowing(userId, maxProfiles, this.auth, options);
   }
 
   /**
    * Fetch the profiles that follow a user
    * @param userId The user whose followers should be returned
    * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of profiles following the provided user.
    */
   public getFollowers(
     userId: string,
     maxProfiles: number,
-  ): AsyncGenerator<Profile, void> {
-    return getFollowers(userId, maxProfiles, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getFollowers(userId, maxProfiles, this.auth, options);
   }
 
   /**
@@ -453,37 +637,44 @@ export class Scraper {
    * Fetches tweets from a Twitter user.
    * @param user The user whose tweets should be returned.
    * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets from the provided user.
    */
-  public getTweets(user: string, maxTweets = 200): AsyncGenerator<Tweet> {
-    return getTweets(user, maxTweets, this.auth);
+  public getTweets(
+    user: string,
+    maxTweets = 200,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweets(user, maxTweets, this.auth, options);
   }
 
   /**
    * Fetches tweets from a Twitter user using their ID.
    * @param userId The user whose tweets should be returned.
    * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets from the provided user.
    */
   public getTweetsByUserId(
     userId: string,
     maxTweets = 200,
-  ): AsyncGenerator<Tweet, void> {
-    return getTweetsByUserId(userId, maxTweets, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetsByUserId(userId, maxTweets, this.auth, options);
   }
 
   /**
    * Send a tweet
    * @param text The text of the tweet
    * @param tweetId The id of the tweet to reply to
-   * @param mediaData Optional media data
+   * @param mediaData Optional media to upload, or media IDs from earlier uploads
    * @returns
    */
 
   async sendTweet(
     text: string,
     replyToTweetId?: string,
-    mediaData?: { data: Buffer; mediaType: string }[],
+    mediaData?: MediaAttachment[],
     hideLinkPreview?: boolean,
   ) {
     return await createCreateTweetRequest(
@@ -498,7 +689,7 @@ export class Scraper {
   async sendNoteTweet(
     text: string,
     replyToTweetId?: string,
-    mediaData?: { data: Buffer; mediaType: string }[],
+    mediaData?: MediaAttachment[],
   ) {
     return await createCreateNoteTweetRequest(
       text,
@@ -512,13 +703,13 @@ export class Scraper {
    * Send a long tweet (Note Tweet)
    * @param text The text of the tweet
    * @param tweetId The id of the tweet to reply to
-   * @param mediaData Optional media data
+   * @param mediaData Optional media to upload, or media IDs from earlier uploads
    * @returns
    */
   async sendLongTweet(
     text: string,
     replyToTweetId?: string,
-    mediaData?: { data: Buffer; mediaType: string }[],
+    mediaData?: MediaAttachment[],
   ) {
     return await createCreateLongTweetRequest(
       text,
@@ -556,26 +747,30 @@ export class Scraper {
    * Fetches tweets and replies from a Twitter user.
    * @param user The user whose tweets should be returned.
    * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets from the provided user.
    */
   public getTweetsAndReplies(
     user: string,
     maxTweets = 200,
-  ): AsyncGenerator<Tweet> {
-    return getTweetsAndReplies(user, maxTweets, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetsAndReplies(user, maxTweets, this.auth, options);
   }
 
   /**
    * Fetches tweets and replies from a Twitter user using their ID.
    * @param userId The user whose tweets should be returned.
    * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
    * @returns An {@link AsyncGenerator} of tweets from the provided user.
    */
   public getTweetsAndRepliesByUserId(
     userId: string,
     maxTweets = 200,
-  ): AsyncGenerator<Tweet, void> {
-    return getTweetsAndRepliesByUserId(userId, maxTweets, this.auth);
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return getTweetsAndRepliesByUserId(userId, maxTweets, this.auth, options);
   }
 
   /**
@@ -707,6 +902,14 @@ export class Scraper {
     return await getTweetsV2(ids, this.auth, options);
   }
 
+  /**
+   * Returns the rate limit budgets of all endpoints the scraper has requested so far.
+   * @returns The known {@link RateLimitBudget} of every endpoint.
+   */
+  public getRateLimitStatus(): RateLimitBudget[] {
+    return this.rateLimitScheduler.getStatus();
+  }
+
   /**
    * Returns if the scraper has a guest token. The token may not be valid.
    * @returns `true` if the scraper has a guest token; otherwise `false`.
@@ -844,14 +1047,14 @@ export class Scraper {
    * Sends a quote tweet.
    * @param text The text of the tweet.
    * @param quotedTweetId The ID of the tweet to quote.
-   * @param options Optional parameters, such as media data.
+   * @param options Optional parameters, such as media to upload or media IDs from earlier uploads.
    * @returns The response from the Twitter API.
    */
   public async sendQuoteTweet(
     text: string,
     quotedTweetId: string,
     options?: {
-      mediaData: { data: Buffer; mediaType: string }[];
+      mediaData: MediaAttachment[];
     },
   ) {
     return await createQuoteTweetRequest(
@@ -862,6 +1065,21 @@ export class Scraper {
     );
   }
 
+  /**
+   * Posts a thread. Long parts are split into several tweets at sentence
+   * boundaries, and every tweet replies to the previous one. If a tweet fails,
+   * the tweets posted so far are deleted again unless `rollbackOnFailure` is `false`.
+   * @param parts The parts of the thread, each with optional media for its first tweet.
+   * @param options Options for the thread, such as a tweet to reply to.
+   * @returns Every tweet that was posted, in order.
+   */
+  public async sendThread(
+    parts: ThreadPart[],
+    options?: Partial<ThreadOptions>,
+  ): Promise<Tweet[]> {
+    return await sendThread(parts, this.auth, options);
+  }
+
   /**
    * Likes a tweet with the given tweet ID.
    * @param tweetId The ID of the tweet to like.
@@ -892,6 +1110,149 @@ export class Scraper {
     await followUser(userName, this.auth);
   }
 
+  /**
+   * Unfollows a user with the given screen name.
+   * @param userName The screen name of the user to unfollow.
+   * @returns A promise that resolves when the user is unfollowed.
+   */
+  public async unfollowUser(userName: string): Promise<void> {
+    await unfollowUser(userName, this.auth);
+  }
+
+  /**
+   * Blocks a user with the given screen name.
+   * @param userName The screen name of the user to block.
+   * @returns A promise that resolves when the user is blocked.
+   */
+  public async blockUser(userName: string): Promise<void> {
+    await blockUser(userName, this.auth);
+  }
+
+  /**
+   * Unblocks a user with the given screen name.
+   * @param userName The screen name of the user to unblock.
+   * @returns A promise that resolves when the user is unblocked.
+   */
+  public async unblockUser(userName: string): Promise<void> {
+    await unblockUser(userName, this.auth);
+  }
+
+  /**
+   * Mutes a user with the given screen name.
+   * @param userName The screen name of the user to mute.
+   * @returns A promise that resolves when the user is muted.
+   */
+  public async muteUser(userName: string): Promise<void> {
+    await muteUser(userName, this.auth);
+  }
+
+  /**
+   * Unmutes a user with the given screen name.
+   * @param userName The screen name of the user to unmute.
+   * @returns A promise that resolves when the user is unmuted.
+   */
+  public async unmuteUser(userName: string): Promise<void> {
+    await unmuteUser(userName, this.auth);
+  }
+
+  /**
+   * Applies an action, such as blocking or muting, to each of the given users.
+   * A failure for one user does not stop the action from being applied to the others.
+   * @param userNames The screen names of the users.
+   * @param action The action to apply.
+   * @returns The outcome for each user, in the same order as the screen names.
+   */
+  public bulkUserAction(
+    userNames: string[],
+    action: UserAction,
+  ): Promise<BulkUserActionResult[]> {
+    return bulkUserAction(userNames, action, this.auth);
+  }
+
+  /**
+   * Fetches the users blocked by the current user.
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of blocked users.
+   */
+  public getBlockedUsers(
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getBlockedUsers(maxProfiles, this.auth, options);
+  }
+
+  /**
+   * Fetches the users muted by the current user.
+   * @param maxProfiles The maximum number of profiles to return.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of muted users.
+   */
+  public getMutedUsers(
+    maxProfiles: number,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Profile> {
+    return getMutedUsers(maxProfiles, this.auth, options);
+  }
+
+  /**
+   * Deletes a tweet with the given tweet ID.
+   * @param tweetId The ID of the tweet to delete.
+   * @returns A promise that resolves when the tweet is deleted.
+   */
+  public async deleteTweet(tweetId: string): Promise<void> {
+    await deleteTweet(tweetId, this.auth);
+  }
+
+  /**
+   * Removes a like from the tweet with the given tweet ID.
+   * @param tweetId The ID of the tweet to unlike.
+   * @returns A promise that resolves when the like is removed.
+   */
+  public async unlikeTweet(tweetId: string): Promise<void> {
+    await unlikeTweet(tweetId, this.auth);
+  }
+
+  /**
+   * Undoes a retweet of the tweet with the given tweet ID.
+   * @param tweetId The ID of the tweet that was retweeted.
+   * @returns A promise that resolves when the retweet is removed.
+   */
+  public async unretweet(tweetId: string): Promise<void> {
+    await unretweet(tweetId, this.auth);
+  }
+
+  /**
+   * Bookmarks the tweet with the given tweet ID.
+   * @param tweetId The ID of the tweet to bookmark.
+   * @returns A promise that resolves when the tweet is bookmarked.
+   */
+  public async bookmarkTweet(tweetId: string): Promise<void> {
+    await bookmarkTweet(tweetId, this.auth);
+  }
+
+  /**
+   * Removes the bookmark of the tweet with the given tweet ID.
+   * @param tweetId The ID of the bookmarked tweet.
+   * @returns A promise that resolves when the bookmark is removed.
+   */
+  public async removeBookmark(tweetId: string): Promise<void> {
+    await removeBookmark(tweetId, this.auth);
+  }
+
+  /**
+   * Fetches the current user's bookmarked tweets.
+   * @param maxTweets The maximum number of tweets to return. Defaults to `200`.
+   * @param options Options for resuming the crawl from a checkpoint and tracking its progress.
+   * @returns An {@link AsyncGenerator} of bookmarked tweets.
+   */
+  public fetchBookmarks(
+    maxTweets = 200,
+    options?: Partial<TimelineOptions>,
+  ): TimelineGenerator<Tweet> {
+    return fetchBookmarks(maxTweets, this.auth, options);
+  }
+
   /**
    * Fetches direct message conversations
    * @param count Number of conversations to fetch (default: 50)
@@ -909,19 +1270,40 @@ export class Scraper {
    * Sends a direct message to a user.
    * @param conversationId The ID of the conversation to send the message to.
    * @param text The text of the message to send.
+   * @param media Optional media to upload, or a media ID from an earlier upload.
    * @returns The response from the Twitter API.
    */
   public async sendDirectMessage(
     conversationId: string,
     text: string,
+    media?: MediaAttachment,
   ): Promise<SendDirectMessageResponse> {
-    return await sendDirectMessage(this.auth, conversationId, text);
+    return await sendDirectMessage(this.auth, conversationId, text, media);
+  }
+
+  /**
+   * Uploads media once, so that its ID can be attached to several tweets or
+   * direct messages. Videos and GIFs are uploaded in chunks, and the returned
+   * promise resolves once Twitter has finished processing them.
+   * @param data The media's contents.
+   * @param mediaType The media's mime type, e.g. `image/png` or `video/mp4`.
+   * @param options Options for alt text, chunking, retries and progress reporting.
+   * @returns The uploaded media.
+   */
+  public uploadMedia(
+    data: Buffer,
+    mediaType: string,
+    options?: Partial<MediaUploadOptions>,
+  ): Promise<UploadedMedia> {
+    return uploadMedia(data, mediaType, this.auth, options);
   }
 
   private getAuthOptions(): Partial<TwitterAuthOptions> {
     return {
       fetch: this.options?.fetch,
       transform: this.options?.transform,
+      rateLimitScheduler: this.rateLimitScheduler,
+      sessionStore: this.options?.sessionStore,
     };
   }
 
@@ -1070,11 +1452,13 @@ export class Scraper {
    * until no more pages are available.
    * @param quotedTweetId The tweet ID to find quotes of.
    * @param maxTweetsPerPage Max tweets per page (default 20).
+   * @param query Optional conditions that the quotes must also match.
    * @returns An array of all Tweet objects referencing the given tweet.
    */
   public async getAllQuotedTweets(
     quotedTweetId: string,
     maxTweetsPerPage = 20,
+    query?: string | SearchQuery,
   ): Promise<Tweet[]> {
     const allQuotes: Tweet[] = [];
     let cursor: string | undefined;
@@ -1086,6 +1470,7 @@ export class Scraper {
         maxTweetsPerPage,
         this.auth,
         cursor,
+        query,
       );
 
       // If there's no new tweets, stop
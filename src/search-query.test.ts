@@ -0,0 +1,84 @@
+import { SearchQueryError } from './errors';
+import { resolveSearchQuery, SearchQuery } from './search-query';
+
+test('search query emits advanced search operators', () => {
+  const query = new SearchQuery()
+    .words('launch')
+    .phrase('to the moon')
+    .without('rumor')
+    .from('@nasa', 'SpaceX')
+    .to('elonmusk')
+    .mentioning('esa')
+    .since('2024-01-01')
+    .until(new Date('2024-02-01T12:00:00Z'))
+    .minFaves(100)
+    .minRetweets(10)
+    .filter('media')
+    .exclude('retweets')
+    .lang('EN')
+    .geocode(28.5, -80.6, '50km');
+
+  expect(query.build()).toEqual(
+    'launch "to the moon" -rumor (from:nasa OR from:SpaceX) to:elonmusk @esa ' +
+      'min_faves:100 min_retweets:10 filter:media -filter:retweets lang:en ' +
+      'geocode:28.5,-80.6,50km since:2024-01-01 until:2024-02-01',
+  );
+});
+
+test('search query can scope a search to a conversation', () => {
+  expect(
+    resolveSearchQuery(
+      new SearchQuery().conversationId('1234567890').filter('links'),
+    ),
+  ).toEqual('conversation_id:1234567890 filter:links');
+  expect(resolveSearchQuery('raw query')).toEqual('raw query');
+});
+
+test('search query rejects contradictory conditions', () => {
+  expect(() =>
+    new SearchQuery().words('a').filter('replies').exclude('replies').build(),
+  ).toThrow(SearchQueryError);
+  expect(() =>
+    new SearchQuery().filter('images').exclude('media').build(),
+  ).toThrow(SearchQueryError);
+  expect(() =>
+    new SearchQuery().conversationId('1').exclude('replies').build(),
+  ).toThrow(SearchQueryError);
+  expect(() =>
+    new SearchQuery()
+      .words('a')
+      .since('2024-02-01')
+      .until('2024-01-01')
+      .build(),
+  ).toThrow(SearchQueryError);
+  expect(() => new SearchQuery().exclude('retweets').build()).toThrow(
+    SearchQueryError,
+  );
+});
+
+test('search query rejects invalid values', () => {
+  expect(() => new SearchQuery().minFaves(-1)).toThrow(SearchQueryError);
+  expect(() => new SearchQuery().since('01/02/2024')).toThrow(SearchQueryError);
+  expect(() => new SearchQuery().geocode(0, 0, '10 miles')).toThrow(
+    SearchQueryError,
+  );
+  expect(() => new SearchQuery().from('not a user')).toThrow(SearchQueryError);
+});
+
+test('search query can narrow down another condition without a term', () => {
+  const query = new SearchQuery().minFaves(10).exclude('replies');
+
+  expect(() => query.build()).toThrow(SearchQueryError);
+  expect(query.build({ requireTerm: false })).toEqual(
+    'min_faves:10 -filter:replies',
+  );
+  expect(resolveSearchQuery(query, { requireTerm: false })).toEqual(
+    'min_faves:10 -filter:replies',
+  );
+  expect(() =>
+    new SearchQuery()
+      .filter('images')
+      .exclude('media')
+      .build({ requireTerm: false }),
+  ).toThrow(SearchQueryError);
+});
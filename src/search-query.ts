@@ -0,0 +1,397 @@
+import { SearchQueryError } from './errors';
+
+/**
+ * The content filters that can be applied to a search, as in `filter:media`.
+ */
+export type SearchFilter =
+  | 'media'
+  | 'images'
+  | 'videos'
+  | 'links'
+  | 'replies'
+  | 'retweets'
+  | 'quote'
+  | 'verified';
+
+/**
+ * Filters that only match a subset of the tweets matched by `filter:media`.
+ */
+const mediaFilters: SearchFilter[] = ['images', 'videos'];
+
+export interface SearchQueryBuildOptions {
+  requireTerm?: boolean;
+}
+
+/**
+ * A typed builder for Twitter's advanced search syntax. Every method returns the
+ * builder, so conditions can be chained:
+ *
+ * ```ts
+ * const query = new SearchQuery()
+ *   .words('launch')
+ *   .from('nasa')
+ *   .since('2024-01-01')
+ *   .minFaves(100)
+ *   .filter('media')
+ *   .exclude('retweets');
+ * ```
+ *
+ * A builder can be passed anywhere a raw query string is accepted, such as
+ * `Scraper#searchTweets` or `Scraper#fetchSearchTweets`.
+ */
+export class SearchQuery {
+  private readonly terms: string[] = [];
+  private readonly excludedTerms: string[] = [];
+  private readonly fromUsers: string[] = [];
+  private readonly toUsers: string[] = [];
+  private readonly mentionedUsers: string[] = [];
+  private readonly includedFilters = new Set<SearchFilter>();
+  private readonly excludedFilters = new Set<SearchFilter>();
+  private sinceDate?: string;
+  private untilDate?: string;
+  private minFavesCount?: number;
+  private minRetweetsCount?: number;
+  private language?: string;
+  private location?: string;
+  private conversation?: string;
+
+  /**
+   * Matches tweets containing all of the given words or hashtags.
+   * @param words The words to match.
+   */
+  words(...words: string[]): this {
+    this.terms.push(...words.map((word) => word.trim()).filter(Boolean));
+    return this;
+  }
+
+  /**
+   * Matches tweets containing the exact phrase.
+   * @param phrase The phrase to match.
+   */
+  phrase(phrase: string): this {
+    this.terms.push(quote(phrase));
+    return this;
+  }
+
+  /**
+   * Matches tweets containing at least one of the given words or phrases.
+   * @param words The alternatives to match.
+   */
+  anyOf(...words: string[]): this {
+    if (words.length > 0) {
+      this.terms.push(group(words.map(quoteIfNeeded)));
+    }
+    return this;
+  }
+
+  /**
+   * Excludes tweets containing any of the given words or phrases.
+   * @param words The words to exclude.
+   */
+  without(...words: string[]): this {
+    this.excludedTerms.push(...words.map(quoteIfNeeded));
+    return this;
+  }
+
+  /**
+   * Matches tweets sent by any of the given users.
+   * @param usernames The users' screen names, with or without a leading `@`.
+   */
+  from(...usernames: string[]): this {
+    this.fromUsers.push(...usernames.map(normalizeUsername));
+    return this;
+  }
+
+  /**
+   * Matches tweets sent in reply to any of the given users.
+   * @param usernames The users' screen names, with or without a leading `@`.
+   */
+  to(...usernames: string[]): this {
+    this.toUsers.push(...usernames.map(normalizeUsername));
+    return this;
+  }
+
+  /**
+   * Matches tweets mentioning any of the given users.
+   * @param usernames The users' screen names, with or without a leading `@`.
+   */
+  mentioning(...usernames: string[]): this {
+    this.mentionedUsers.push(...usernames.map(normalizeUsername));
+    return this;
+  }
+
+  /**
+   * Matches tweets sent on or after the given day.
+   * @param date A date, or a day formatted as `YYYY-MM-DD`.
+   */
+  since(date: Date | string): this {
+    this.sinceDate = formatDate(date, 'since');
+    return this;
+  }
+
+  /**
+   * Matches tweets sent before the given day.
+   * @param date A date, or a day formatted as `YYYY-MM-DD`.
+   */
+  until(date: Date | string): this {
+    this.untilDate = formatDate(date, 'until');
+    return this;
+  }
+
+  /**
+   * Matches tweets with at least the given number of likes.
+   * @param count The minimum number of likes.
+   */
+  minFaves(count: number): this {
+    this.minFavesCount = validateCount(count, 'min_faves');
+    return this;
+  }
+
+  /**
+   * Matches tweets with at least the given number of retweets.
+   * @param count The minimum number of retweets.
+   */
+  minRetweets(count: number): this {
+    this.minRetweetsCount = validateCount(count, 'min_retweets');
+    return this;
+  }
+
+  /**
+   * Only matches tweets that satisfy the given filters.
+   * @param filters The filters to apply.
+   */
+  filter(...filters: SearchFilter[]): this {
+    filters.forEach((filter) => this.includedFilters.add(filter));
+    return this;
+  }
+
+  /**
+   * Excludes tweets that satisfy the given filters.
+   * @param filters The filters to negate.
+   */
+  exclude(...filters: SearchFilter[]): this {
+    filters.forEach((filter) => this.excludedFilters.add(filter));
+    return this;
+  }
+
+  /**
+   * Matches tweets written in the given language.
+   * @param code An ISO 639-1 language code, e.g. `en`.
+   */
+  lang(code: string): this {
+    if (!/^[a-z]{2,3}$/i.test(code)) {
+      throw new SearchQueryError(`Invalid language code: ${code}`);
+    }
+
+    this.language = code.toLowerCase();
+    return this;
+  }
+
+  /**
+   * Matches tweets sent from within a radius around a location.
+   * @param latitude The latitude of the center, in degrees.
+   * @param longitude The longitude of the center, in degrees.
+   * @param radius The radius, e.g. `10km` or `5mi`.
+   */
+  geocode(latitude: number, longitude: number, radius: string): this {
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new SearchQueryError(
+        `Invalid coordinates: ${latitude},${longitude}`,
+      );
+    }
+
+    if (!/^\d+(\.\d+)?(km|mi)$/.test(radius)) {
+      throw new SearchQueryError(
+        `Invalid radius: ${radius}. Use a distance in km or mi, e.g. 10km.`,
+      );
+    }
+
+    this.location = `${latitude},${longitude},${radius}`;
+    return this;
+  }
+
+  /**
+   * Matches tweets that belong to the conversation started by the given tweet.
+   * @param tweetId The ID of the conversation's root tweet.
+   */
+  conversationId(tweetId: string): this {
+    if (!/^\d+$/.test(tweetId)) {
+      throw new SearchQueryError(`Invalid conversation ID: ${tweetId}`);
+    }
+
+    this.conversation = tweetId;
+    return this;
+  }
+
+  /**
+   * Validates the query and returns it in Twitter's search syntax.
+   * @param options.requireTerm Whether the query must contain a word, user, filter, location or
+   * conversation on its own. Disable this when the query only narrows down another condition,
+   * such as `quoted_tweet_id`. (Default: true)
+   * @returns The raw query string.
+   * @throws {@link SearchQueryError} if the query's conditions contradict each other.
+   */
+  build(options?: SearchQueryBuildOptions): string {
+    this.validate(options?.requireTerm ?? true);
+
+    const parts: string[] = [...this.terms];
+    parts.push(...this.excludedTerms.map((term) => `-${term}`));
+    pushOperator(parts, 'from', this.fromUsers);
+    pushOperator(parts, 'to', this.toUsers);
+    if (this.mentionedUsers.length > 0) {
+      parts.push(group(this.mentionedUsers.map((user) => `@${user}`)));
+    }
+    if (this.conversation != null) {
+      parts.push(`conversation_id:${this.conversation}`);
+    }
+    if (this.minFavesCount != null) {
+      parts.push(`min_faves:${this.minFavesCount}`);
+    }
+    if (this.minRetweetsCount != null) {
+      parts.push(`min_retweets:${this.minRetweetsCount}`);
+    }
+    parts.push(...[...this.includedFilters].map((f) => `filter:${f}`));
+    parts.push(...[...this.excludedFilters].map((f) => `-filter:${f}`));
+    if (this.language != null) {
+      parts.push(`lang:${this.language}`);
+    }
+    if (this.location != null) {
+      parts.push(`geocode:${this.location}`);
+    }
+    if (this.sinceDate != null) {
+      parts.push(`since:${this.sinceDate}`);
+    }
+    if (this.untilDate != null) {
+      parts.push(`until:${this.untilDate}`);
+    }
+
+    return parts.join(' ');
+  }
+
+  toString(): string {
+    return this.build();
+  }
+
+  private validate(requireTerm: boolean) {
+    const hasPositiveCondition =
+      this.terms.length > 0 ||
+      this.fromUsers.length > 0 ||
+      this.toUsers.length > 0 ||
+      this.mentionedUsers.length > 0 ||
+      this.includedFilters.size > 0 ||
+      this.conversation != null ||
+      this.location != null;
+    if (requireTerm && !hasPositiveCondition) {
+      throw new SearchQueryError(
+        'A search query needs at least one word, user, filter, location or conversation.',
+      );
+    }
+
+    for (const filter of this.includedFilters) {
+      if (this.excludedFilters.has(filter)) {
+        throw new SearchQueryError(
+          `filter:${filter} cannot be both required and excluded.`,
+        );
+      }
+
+      if (mediaFilters.includes(filter) && this.excludedFilters.has('media')) {
+        throw new SearchQueryError(
+          `filter:${filter} cannot be required while filter:media is excluded.`,
+        );
+      }
+    }
+
+    if (this.conversation != null && this.excludedFilters.has('replies')) {
+      throw new SearchQueryError(
+        'conversation_id cannot be combined with -filter:replies, as conversations consist of replies.',
+      );
+    }
+
+    for (const term of this.excludedTerms) {
+      if (this.terms.includes(term)) {
+        throw new SearchQueryError(
+          `${term} cannot be both required and excluded.`,
+        );
+      }
+    }
+
+    if (
+      this.sinceDate != null &&
+      this.untilDate != null &&
+      this.sinceDate >= this.untilDate
+    ) {
+      throw new SearchQueryError(
+        `since:${this.sinceDate} must be before until:${this.untilDate}.`,
+      );
+    }
+  }
+}
+
+/**
+ * Converts a query to Twitter's search syntax.
+ * @param query A raw query string, or a {@link SearchQuery}.
+ * @param options Passed to {@link SearchQuery.build}.
+ * @returns The raw query string.
+ */
+export function resolveSearchQuery(
+  query: string | SearchQuery,
+  options?: SearchQueryBuildOptions,
+): string {
+  return typeof query === 'string' ? query : query.build(options);
+}
+
+function pushOperator(parts: string[], operator: string, values: string[]) {
+  if (values.length > 0) {
+    parts.push(group(values.map((value) => `${operator}:${value}`)));
+  }
+}
+
+function group(alternatives: string[]): string {
+  return alternatives.length === 1
+    ? alternatives[0]
+    : `(${alternatives.join(' OR ')})`;
+}
+
+function quote(phrase: string): string {
+  return `"${phrase.replace(/"/g, '')}"`;
+}
+
+function quoteIfNeeded(word: string): string {
+  return /\s/.test(word.trim()) ? quote(word.trim()) : word.trim();
+}
+
+function normalizeUsername(username: string): string {
+  const normalized = username.trim().replace(/^@/, '');
+  if (!/^\w{1,15}$/.test(normalized)) {
+    throw new SearchQueryError(`Invalid username: ${username}`);
+  }
+
+  return normalized;
+}
+
+function formatDate(date: Date | string, operator: string): string {
+  if (typeof date === 'string') {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      throw new SearchQueryError(
+        `Invalid ${operator} date: ${date}. Use the YYYY-MM-DD format.`,
+      );
+    }
+    return date;
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new SearchQueryError(`Invalid ${operator} date.`);
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function validateCount(count: number, operator: string): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new SearchQueryError(
+      `${operator} must be a non-negative integer, got ${count}.`,
+    );
+  }
+
+  return count;
+}
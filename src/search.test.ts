@@ -1,5 +1,9 @@
+import { CookieJar } from 'tough-cookie';
+import { TwitterAuth } from './auth';
+import { RateLimiter } from './rate-limit';
 import { getScraper } from './test-utils';
-import { SearchMode } from './search';
+import { SearchMode, searchQuotedTweets } from './search';
+import { SearchQuery } from './search-query';
 import { QueryTweetsResponse } from './timeline-v1';
 
 test('scraper can process search cursor', async () => {
@@ -77,3 +81,31 @@ test('scraper can search tweets', async () => {
 
   expect(nTweets).toEqual(maxTweets);
 }, 30000);
+
+test('quoted tweet searches can be narrowed by a query without a term', async () => {
+  const jar = new CookieJar();
+  const scheduler = new RateLimiter();
+  const rawQueries: string[] = [];
+  const auth = {
+    cookieJar: () => jar,
+    installTo: () => Promise.resolve(),
+    rateLimitScheduler: () => scheduler,
+    fetch: async (input: RequestInfo | URL) => {
+      const params = new URL(String(input)).searchParams;
+      rawQueries.push(JSON.parse(params.get('variables') ?? '{}').rawQuery);
+      return new Response('{}');
+    },
+  } as unknown as TwitterAuth;
+
+  const pages = searchQuotedTweets(
+    '1',
+    20,
+    auth,
+    new SearchQuery().minFaves(10),
+  );
+  for await (const page of pages) {
+    expect(page.tweets).toEqual([]);
+  }
+
+  expect(rawQueries).toEqual(['quoted_tweet_id:1 min_faves:10']);
+});
@@ -1,8 +1,14 @@
 import { addApiFeatures, requestApi } from './api';
 import { TwitterAuth } from './auth';
 import { Profile } from './profile';
+import { resolveSearchQuery, SearchQuery } from './search-query';
 import { QueryProfilesResponse, QueryTweetsResponse } from './timeline-v1';
-import { getTweetTimeline, getUserTimeline } from './timeline-async';
+import {
+  getTweetTimeline,
+  getUserTimeline,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
 import { Tweet } from './tweets';
 import {
   SearchTimeline,
@@ -23,35 +29,47 @@ export enum SearchMode {
 }
 
 export function searchTweets(
-  query: string,
+  query: string | SearchQuery,
   maxTweets: number,
   searchMode: SearchMode,
   auth: TwitterAuth,
-): AsyncGenerator<Tweet, void> {
-  return getTweetTimeline(query, maxTweets, (q, mt, c) => {
-    return fetchSearchTweets(q, mt, searchMode, auth, c);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    resolveSearchQuery(query),
+    maxTweets,
+    (q, mt, c) => {
+      return fetchSearchTweets(q, mt, searchMode, auth, c);
+    },
+    options,
+  );
 }
 
 export function searchProfiles(
   query: string,
   maxProfiles: number,
   auth: TwitterAuth,
-): AsyncGenerator<Profile, void> {
-  return getUserTimeline(query, maxProfiles, (q, mt, c) => {
-    return fetchSearchProfiles(q, mt, auth, c);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  return getUserTimeline(
+    query,
+    maxProfiles,
+    (q, mt, c) => {
+      return fetchSearchProfiles(q, mt, auth, c);
+    },
+    options,
+  );
 }
 
 export async function fetchSearchTweets(
-  query: string,
+  query: string | SearchQuery,
   maxTweets: number,
   searchMode: SearchMode,
   auth: TwitterAuth,
   cursor?: string,
 ): Promise<QueryTweetsResponse> {
   const timeline = await getSearchTimeline(
-    query,
+    resolveSearchQuery(query),
     maxTweets,
     searchMode,
     auth,
@@ -163,6 +181,7 @@ async function getSearchTimeline(
  * @param maxTweets Maximum number of tweets to return in one page.
  * @param auth The TwitterAuth object.
  * @param cursor Optional pagination cursor for fetching further pages.
+ * @param query Optional conditions that the quotes must also match.
  * @returns A promise that resolves to a QueryTweetsResponse containing tweets and the next cursor.
  */
 export async function fetchQuotedTweetsPage(
@@ -170,14 +189,20 @@ export async function fetchQuotedTweetsPage(
   maxTweets: number,
   auth: TwitterAuth,
   cursor?: string,
+  query?: string | SearchQuery,
 ): Promise<QueryTweetsResponse> {
   if (maxTweets > 50) {
     maxTweets = 50;
   }
 
+  let rawQuery = `quoted_tweet_id:${quotedTweetId}`;
+  if (query != null) {
+    rawQuery += ` ${resolveSearchQuery(query, { requireTerm: false })}`;
+  }
+
   // Build the rawQuery and variables
   const variables: Record<string, any> = {
-    rawQuery: `quoted_tweet_id:${quotedTweetId}`,
+    rawQuery,
     count: maxTweets,
     querySource: 'tdqt',
     product: 'Top',
@@ -247,12 +272,18 @@ export async function fetchQuotedTweetsPage(
 /**
  * Creates an async generator, yielding pages of quotes for a given tweet ID.
  * It prevents infinite loop by checking if the next cursor hasn't changed.
+ * An optional query narrows the quotes down further.
  */
 export async function* searchQuotedTweets(
   quotedTweetId: string,
   maxTweets: number,
   auth: TwitterAuth,
+  query?: string | SearchQuery,
 ): AsyncGenerator<QueryTweetsResponse> {
+  const rawQuery =
+    query == null
+      ? undefined
+      : resolveSearchQuery(query, { requireTerm: false });
   let cursor: string | undefined;
 
   while (true) {
@@ -261,6 +292,7 @@ export async function* searchQuotedTweets(
       maxTweets,
       auth,
       cursor,
+      rawQuery,
     );
     yield response;
 
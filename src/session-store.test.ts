@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CookieJar } from 'tough-cookie';
+import {
+  FileSessionStore,
+  MemorySessionStore,
+  StoredSession,
+} from './session-store';
+
+async function createSession(): Promise<StoredSession> {
+  const jar = new CookieJar();
+  await jar.setCookie('ct0=token; Domain=twitter.com', 'https://twitter.com');
+  return {
+    cookieJar: await jar.serialize(),
+    savedAt: new Date().toISOString(),
+  };
+}
+
+test('memory session store round-trips sessions', async () => {
+  const store = new MemorySessionStore();
+  const session = await createSession();
+
+  await expect(store.load('user')).resolves.toBeNull();
+  await store.save('user', session);
+  await expect(store.load('user')).resolves.toEqual(session);
+
+  await store.delete('user');
+  await expect(store.load('user')).resolves.toBeNull();
+});
+
+test('encrypted session store requires the right passphrase', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+  try {
+    const store = new FileSessionStore({
+      directory,
+      passphrase: 'correct horse',
+    });
+    const session = await createSession();
+    await store.save('user', session);
+    await store.save('other', session);
+
+    await expect(store.load('user')).resolves.toEqual(session);
+    await expect(store.load('other')).resolves.toEqual(session);
+
+    const other = new FileSessionStore({ directory, passphrase: 'wrong' });
+    await expect(other.load('user')).rejects.toThrow(/passphrase/);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('file session store persists encrypted sessions to disk', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+  try {
+    const store = new FileSessionStore({ directory, passphrase: 'secret' });
+    const session = await createSession();
+    await store.save('user', session);
+
+    const [file] = fs.readdirSync(directory);
+    expect(fs.readFileSync(path.join(directory, file), 'utf8')).not.toContain(
+      'ct0',
+    );
+
+    const reopened = new FileSessionStore({ directory, passphrase: 'secret' });
+    const restored = await reopened.load('user');
+    expect(restored).toEqual(session);
+
+    const jar = await CookieJar.deserialize(
+      (restored as StoredSession).cookieJar,
+    );
+    const cookies = await jar.getCookies('https://twitter.com');
+    expect(cookies.map((cookie) => cookie.key)).toEqual(['ct0']);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,233 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CookieJar } from 'tough-cookie';
+
+/**
+ * The persisted state of a logged-in session.
+ */
+export interface StoredSession {
+  /**
+   * The session's cookie jar, as serialized by `CookieJar#serialize`.
+   */
+  cookieJar: CookieJar.Serialized;
+
+  /**
+   * When the session was last saved, as an ISO 8601 string.
+   */
+  savedAt: string;
+}
+
+/**
+ * Persists authentication state between runs, so that sessions can be resumed
+ * without logging in again.
+ */
+export interface SessionStore {
+  /**
+   * Loads a session.
+   * @param key The session key, usually the account's username.
+   * @returns The stored session, or `null` if there is none.
+   */
+  load(key: string): Promise<StoredSession | null>;
+
+  /**
+   * Saves a session, replacing any session stored under the same key.
+   * @param key The session key, usually the account's username.
+   * @param session The session to store.
+   */
+  save(key: string, session: StoredSession): Promise<void>;
+
+  /**
+   * Deletes a session, if it exists.
+   * @param key The session key, usually the account's username.
+   */
+  delete(key: string): Promise<void>;
+}
+
+export interface SessionStoreOptions {
+  /**
+   * If set, sessions are encrypted with a key derived from this passphrase
+   * before they are stored.
+   */
+  passphrase: string;
+}
+
+export interface FileSessionStoreOptions extends SessionStoreOptions {
+  /**
+   * The directory sessions are stored in. Each session is stored in its own file.
+   */
+  directory: string;
+}
+
+/**
+ * A {@link SessionStore} that keeps sessions in memory for the lifetime of the process.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, string>();
+  private readonly cipher?: SessionCipher;
+
+  constructor(options?: Partial<SessionStoreOptions>) {
+    this.cipher = createSessionCipher(options?.passphrase);
+  }
+
+  async load(key: string): Promise<StoredSession | null> {
+    const encoded = this.sessions.get(key);
+    if (encoded == null) {
+      return null;
+    }
+
+    return decodeSession(encoded, this.cipher);
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    this.sessions.set(key, await encodeSession(session, this.cipher));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+}
+
+/**
+ * A {@link SessionStore} that keeps each session in a JSON file on disk.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly cipher?: SessionCipher;
+
+  constructor(private readonly options: FileSessionStoreOptions) {
+    this.cipher = createSessionCipher(options.passphrase);
+  }
+
+  async load(key: string): Promise<StoredSession | null> {
+    let encoded: string;
+    try {
+      encoded = await fs.readFile(this.getPath(key), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+
+    return decodeSession(encoded, this.cipher);
+  }
+
+  async save(key: string, session: StoredSession): Promise<void> {
+    const encoded = await encodeSession(session, this.cipher);
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await fs.writeFile(this.getPath(key), encoded, {
+      encoding: 'utf8',
+      mode: 0o600,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  private getPath(key: string): string {
+    return path.join(
+      this.options.directory,
+      `${encodeURIComponent(key)}.session.json`,
+    );
+  }
+}
+
+interface EncryptedSession {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Encrypts sessions with AES-256-GCM. Deriving a key from the passphrase is slow on purpose,
+ * so it happens once per salt: new sessions share this cipher's salt, and the keys for the
+ * salts of previously stored sessions are cached as they are loaded.
+ */
+class SessionCipher {
+  private readonly salt = randomBytes(16);
+  private readonly keys = new Map<string, Promise<Buffer>>();
+
+  constructor(private readonly passphrase: string) {}
+
+  async encrypt(json: string): Promise<EncryptedSession> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      await this.getKey(this.salt),
+      iv,
+    );
+    const data = Buffer.concat([cipher.update(json, 'utf8'), cipher.final()]);
+
+    return {
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  async decrypt(encrypted: EncryptedSession): Promise<string> {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      await this.getKey(Buffer.from(encrypted.salt, 'base64')),
+      Buffer.from(encrypted.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private getKey(salt: Buffer): Promise<Buffer> {
+    const id = salt.toString('base64');
+    let key = this.keys.get(id);
+    if (key == null) {
+      key = new Promise((resolve, reject) => {
+        scrypt(this.passphrase, salt, 32, (err, derived) =>
+          err ? reject(err) : resolve(derived),
+        );
+      });
+      this.keys.set(id, key);
+    }
+    return key;
+  }
+}
+
+function createSessionCipher(passphrase?: string): SessionCipher | undefined {
+  return passphrase == null ? undefined : new SessionCipher(passphrase);
+}
+
+async function encodeSession(
+  session: StoredSession,
+  cipher?: SessionCipher,
+): Promise<string> {
+  const json = JSON.stringify(session);
+  if (cipher == null) {
+    return json;
+  }
+
+  return JSON.stringify(await cipher.encrypt(json));
+}
+
+async function decodeSession(
+  encoded: string,
+  cipher?: SessionCipher,
+): Promise<StoredSession> {
+  if (cipher == null) {
+    return JSON.parse(encoded);
+  }
+
+  const encrypted: EncryptedSession = JSON.parse(encoded);
+  if (encrypted.data == null || encrypted.tag == null) {
+    throw new Error('Stored session is not encrypted.');
+  }
+
+  try {
+    return JSON.parse(await cipher.decrypt(encrypted));
+  } catch {
+    throw new Error('Failed to decrypt stored session. Check the passphrase.');
+  }
+}
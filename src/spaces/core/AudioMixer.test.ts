@@ -0,0 +1,91 @@
+import { AudioMixer } from './AudioMixer';
+
+function constant(value: number, length: number): Int16Array {
+  return new Int16Array(length).fill(value);
+}
+
+function startMixer(mixer: AudioMixer) {
+  const frames: Int16Array[] = [];
+  mixer.start({
+    pushLocalAudio: (samples: Int16Array) => {
+      frames.push(samples);
+    },
+  });
+  return frames;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('input is resampled to 48 kHz mono and pushed in 10ms frames', () => {
+  const mixer = new AudioMixer();
+  mixer.addSource('voice');
+  const frames = startMixer(mixer);
+
+  // 20ms at 24 kHz, then 10ms of 16 kHz stereo
+  mixer.push('voice', constant(1000, 480), 24_000);
+  mixer.push(
+    'voice',
+    Int16Array.from({ length: 320 }, (_, i) => (i % 2 ? 3000 : 1000)),
+    16_000,
+    2,
+  );
+  expect(mixer.getBufferedMs('voice')).toBeCloseTo(30);
+
+  jest.advanceTimersByTime(40);
+  mixer.stop();
+
+  expect(frames).toHaveLength(4);
+  expect(frames.every((frame) => frame.length === 480)).toBeTruthy();
+  expect(frames[0][0]).toEqual(1000);
+  expect(frames[1][479]).toEqual(1000);
+  expect(frames[2][0]).toEqual(2000);
+  expect(frames[3].every((sample) => sample === 0)).toBeTruthy();
+});
+
+test('ducking sources turn down duckable ones while they play', () => {
+  const mixer = new AudioMixer({
+    duckingGain: 0.2,
+    duckingAttackMs: 10,
+    duckingReleaseMs: 40,
+  });
+  mixer.addSource('music', { gain: 0.5, duckable: true });
+  mixer.addSource('tts', { ducksOthers: true });
+  const frames = startMixer(mixer);
+
+  mixer.push('music', constant(2000, 480 * 10), 48_000);
+  mixer.push('tts', constant(1000, 480 * 2), 48_000);
+
+  jest.advanceTimersByTime(60);
+  mixer.stop();
+
+  const levels = frames.map((frame) => frame[0]);
+  // Music at 0.5 * 0.2 under the TTS, then fading back up in 4 frames
+  expect(levels).toEqual([1200, 1200, 400, 600, 800, 1000]);
+});
+
+test('waiting for a drain follows playback and fails if the mixer is not running', async () => {
+  const mixer = new AudioMixer();
+  mixer.addSource('tts');
+  mixer.push('tts', constant(1000, 480 * 3), 48_000);
+
+  await expect(mixer.waitForDrain('tts')).rejects.toThrow('Not started');
+
+  const drained = jest.fn();
+  startMixer(mixer);
+  mixer.waitForDrain('tts').then(drained);
+
+  jest.advanceTimersByTime(20);
+  await Promise.resolve();
+  expect(drained).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(10);
+  await Promise.resolve();
+  expect(drained).toHaveBeenCalled();
+  mixer.stop();
+});
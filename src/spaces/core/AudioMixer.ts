@@ -0,0 +1,417 @@
+// src/core/AudioMixer.ts
+
+import { TypedEventEmitter } from '../events';
+import { Plugin } from '../types';
+import type { JanusClient } from './JanusClient';
+import { Logger } from '../logger';
+
+/**
+ * Sample rate of the mixed output, which is what Janus publishes.
+ */
+const OUTPUT_SAMPLE_RATE = 48_000;
+
+/**
+ * Duration of each output frame.
+ */
+const FRAME_MS = 10;
+const FRAME_SIZE = (OUTPUT_SAMPLE_RATE * FRAME_MS) / 1000;
+
+/**
+ * Frames pushed in a single tick when the timer fell behind. Older frames are skipped
+ * so a stalled event loop doesn't turn into a burst of late audio.
+ */
+const MAX_CATCH_UP_FRAMES = 10;
+
+export interface AudioMixerSourceOptions {
+  /**
+   * Volume multiplier for this source. (Default: 1)
+   */
+  gain?: number;
+
+  /**
+   * Whether this source is turned down while a ducking source plays, e.g. background music. (Default: false)
+   */
+  duckable?: boolean;
+
+  /**
+   * Whether this source turns down the duckable sources while it plays, e.g. TTS. (Default: false)
+   */
+  ducksOthers?: boolean;
+}
+
+export interface AudioMixerOptions {
+  /**
+   * Gain applied to duckable sources while a ducking source plays. (Default: 0.2)
+   */
+  duckingGain?: number;
+
+  /**
+   * How long (in ms) duckable sources take to fade down. (Default: 50ms)
+   */
+  duckingAttackMs?: number;
+
+  /**
+   * How long (in ms) duckable sources take to fade back up once ducking ends. (Default: 500ms)
+   */
+  duckingReleaseMs?: number;
+}
+
+/**
+ * Events emitted by the AudioMixer.
+ */
+export interface AudioMixerEvents {
+  /**
+   * A source has no more buffered audio, because it was played, cleared or removed.
+   */
+  sourceDrained: (name: string) => void;
+}
+
+/**
+ * Anything that accepts mixed frames, typically a JanusClient.
+ */
+export type AudioMixerTarget = Pick<JanusClient, 'pushLocalAudio'>;
+
+interface MixerSource {
+  gain: number;
+  duckable: boolean;
+  ducksOthers: boolean;
+  chunks: Int16Array[];
+
+  /**
+   * Read position in chunks[0]
+   */
+  offset: number;
+  bufferedSamples: number;
+}
+
+/**
+ * AudioMixer
+ * ----------
+ * Mixes several named sources (TTS, background music, soundboard clips...) into the single
+ * local audio track Janus publishes. Input is resampled to 48 kHz mono and pushed as 10ms
+ * frames at a steady cadence, with per-source gain and ducking.
+ *
+ * Use it as a plugin so it starts once Janus is ready:
+ *   const mixer = new AudioMixer();
+ *   space.use(mixer);
+ *   mixer.addSource('music', { gain: 0.5, duckable: true });
+ *   mixer.push('music', samples, 44100);
+ * or drive any target yourself with start(target) / stop().
+ */
+export class AudioMixer
+  extends TypedEventEmitter<AudioMixerEvents>
+  implements Plugin
+{
+  private logger?: Logger;
+
+  private readonly duckingGain: number;
+  private readonly attackStep: number;
+  private readonly releaseStep: number;
+
+  private sources = new Map<string, MixerSource>();
+
+  /**
+   * Current multiplier applied to duckable sources, ramping between duckingGain and 1
+   */
+  private duckLevel = 1;
+
+  private target?: AudioMixerTarget;
+  private timer?: NodeJS.Timeout;
+  private startedAt = 0;
+  private framesPushed = 0;
+
+  constructor(options?: AudioMixerOptions) {
+    super();
+    this.duckingGain = options?.duckingGain ?? 0.2;
+
+    const attackFrames = Math.max(
+      1,
+      (options?.duckingAttackMs ?? 50) / FRAME_MS,
+    );
+    const releaseFrames = Math.max(
+      1,
+      (options?.duckingReleaseMs ?? 500) / FRAME_MS,
+    );
+    this.attackStep = (1 - this.duckingGain) / attackFrames;
+    this.releaseStep = (1 - this.duckingGain) / releaseFrames;
+  }
+
+  onAttach(params: { pluginConfig?: Record<string, any> }): void {
+    const debug = params.pluginConfig?.debug ?? false;
+    this.logger = new Logger(debug);
+
+    this.logger.info('[AudioMixer] onAttach => plugin attached');
+  }
+
+  /**
+   * Starts pushing mixed frames to Janus as soon as it's ready.
+   */
+  onJanusReady(janusClient: JanusClient): void {
+    this.stop();
+    this.start(janusClient);
+  }
+
+  /**
+   * Registers a new input source.
+   */
+  public addSource(name: string, options?: AudioMixerSourceOptions) {
+    if (this.sources.has(name)) {
+      throw new Error(`[AudioMixer] Source "${name}" already exists`);
+    }
+    this.sources.set(name, {
+      gain: options?.gain ?? 1,
+      duckable: options?.duckable ?? false,
+      ducksOthers: options?.ducksOthers ?? false,
+      chunks: [],
+      offset: 0,
+      bufferedSamples: 0,
+    });
+    this.logger?.debug(`[AudioMixer] addSource => ${name}`);
+    return this;
+  }
+
+  public hasSource(name: string): boolean {
+    return this.sources.has(name);
+  }
+
+  /**
+   * Removes a source, dropping whatever it still had buffered.
+   */
+  public removeSource(name: string) {
+    this.clear(name);
+    this.sources.delete(name);
+    this.logger?.debug(`[AudioMixer] removeSource => ${name}`);
+  }
+
+  public setGain(name: string, gain: number) {
+    this.getSource(name).gain = gain;
+  }
+
+  /**
+   * Queues PCM for a source. It's resampled to 48 kHz and downmixed to mono as needed.
+   */
+  public push(
+    name: string,
+    samples: Int16Array,
+    sampleRate: number,
+    channels = 1,
+  ) {
+    const source = this.getSource(name);
+
+    const mono = channels > 1 ? downmix(samples, channels) : samples;
+    const resampled =
+      sampleRate === OUTPUT_SAMPLE_RATE
+        ? mono
+        : resample(mono, sampleRate, OUTPUT_SAMPLE_RATE);
+    if (resampled.length === 0) return;
+
+    source.chunks.push(resampled);
+    source.bufferedSamples += resampled.length;
+  }
+
+  /**
+   * Drops a source's buffered audio, e.g. to cut a TTS reply short.
+   */
+  public clear(name: string) {
+    const source = this.sources.get(name);
+    if (!source || source.bufferedSamples === 0) return;
+
+    source.chunks = [];
+    source.offset = 0;
+    source.bufferedSamples = 0;
+    this.emit('sourceDrained', name);
+  }
+
+  /**
+   * How much audio (in ms) a source has left to play.
+   */
+  public getBufferedMs(name: string): number {
+    const source = this.getSource(name);
+    return (source.bufferedSamples / OUTPUT_SAMPLE_RATE) * 1000;
+  }
+
+  /**
+   * Resolves once a source has no more buffered audio.
+   * Rejects if the mixer isn't running, as the audio would never be played.
+   */
+  public waitForDrain(name: string): Promise<void> {
+    if (!this.sources.get(name)?.bufferedSamples) {
+      return Promise.resolve();
+    }
+    if (!this.isRunning()) {
+      return Promise.reject(
+        new Error(
+          `[AudioMixer] Not started, so source "${name}" would never drain`,
+        ),
+      );
+    }
+
+    return new Promise((resolve) => {
+      const onDrained = (drained: string) => {
+        if (drained !== name) return;
+        this.off('sourceDrained', onDrained);
+        resolve();
+      };
+      this.on('sourceDrained', onDrained);
+    });
+  }
+
+  public isRunning(): boolean {
+    return this.timer != null;
+  }
+
+  /**
+   * Starts pushing one mixed frame every 10ms to the target. Silence is pushed while
+   * every source is empty, so the track keeps a steady cadence.
+   */
+  public start(target: AudioMixerTarget) {
+    if (this.timer) return;
+
+    this.target = target;
+    this.startedAt = Date.now();
+    this.framesPushed = 0;
+    this.timer = setInterval(() => this.tick(), FRAME_MS);
+    this.logger?.info('[AudioMixer] Started');
+  }
+
+  /**
+   * Stops pushing frames and drops all buffered audio. Sources stay registered.
+   */
+  public stop() {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.target = undefined;
+    for (const name of this.sources.keys()) {
+      this.clear(name);
+    }
+    this.duckLevel = 1;
+    this.logger?.info('[AudioMixer] Stopped');
+  }
+
+  /**
+   * Pushes every frame that is due, based on wall-clock time rather than
+   * timer callbacks, which fire late under load.
+   */
+  private tick() {
+    let due =
+      Math.floor((Date.now() - this.startedAt) / FRAME_MS) - this.framesPushed;
+
+    if (due > MAX_CATCH_UP_FRAMES) {
+      this.logger?.debug(
+        `[AudioMixer] Fell behind => skipping ${
+          due - MAX_CATCH_UP_FRAMES
+        } frames`,
+      );
+      this.framesPushed += due - MAX_CATCH_UP_FRAMES;
+      due = MAX_CATCH_UP_FRAMES;
+    }
+
+    for (let i = 0; i < due && this.target; i++) {
+      this.target.pushLocalAudio(this.mixFrame(), OUTPUT_SAMPLE_RATE, 1);
+      this.framesPushed++;
+    }
+  }
+
+  private mixFrame(): Int16Array {
+    const ducking = [...this.sources.values()].some(
+      (source) => source.ducksOthers && source.bufferedSamples > 0,
+    );
+    this.duckLevel = ducking
+      ? Math.max(this.duckingGain, this.duckLevel - this.attackStep)
+      : Math.min(1, this.duckLevel + this.releaseStep);
+
+    const mix = new Float32Array(FRAME_SIZE);
+    for (const [name, source] of this.sources) {
+      if (source.bufferedSamples === 0) continue;
+
+      const gain = source.gain * (source.duckable ? this.duckLevel : 1);
+      readInto(source, mix, gain);
+      if (source.bufferedSamples === 0) {
+        this.emit('sourceDrained', name);
+      }
+    }
+
+    const frame = new Int16Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      frame[i] = Math.max(-32768, Math.min(32767, Math.round(mix[i])));
+    }
+    return frame;
+  }
+
+  private getSource(name: string): MixerSource {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`[AudioMixer] Unknown source "${name}"`);
+    }
+    return source;
+  }
+
+  /**
+   * Stops the mixer when the plugin is removed or space stops.
+   */
+  cleanup(): void {
+    this.logger?.info('[AudioMixer] cleanup => stopping');
+    this.stop();
+  }
+}
+
+/**
+ * Adds up to one frame of a source's audio into the mix, consuming it from the source.
+ */
+function readInto(source: MixerSource, mix: Float32Array, gain: number) {
+  let written = 0;
+  while (written < mix.length && source.chunks.length > 0) {
+    const chunk = source.chunks[0];
+    const count = Math.min(mix.length - written, chunk.length - source.offset);
+    for (let i = 0; i < count; i++) {
+      mix[written + i] += chunk[source.offset + i] * gain;
+    }
+
+    written += count;
+    source.offset += count;
+    source.bufferedSamples -= count;
+    if (source.offset >= chunk.length) {
+      source.chunks.shift();
+      source.offset = 0;
+    }
+  }
+}
+
+/**
+ * Averages interleaved channels into mono.
+ */
+function downmix(samples: Int16Array, channels: number): Int16Array {
+  const mono = new Int16Array(Math.floor(samples.length / channels));
+  for (let i = 0; i < mono.length; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += samples[i * channels + c];
+    }
+    mono[i] = Math.round(sum / channels);
+  }
+  return mono;
+}
+
+/**
+ * Linear-interpolation resampler. Good enough for speech and music beds.
+ */
+function resample(
+  samples: Int16Array,
+  fromRate: number,
+  toRate: number,
+): Int16Array {
+  const length = Math.floor((samples.length * toRate) / fromRate);
+  const out = new Int16Array(length);
+  const step = fromRate / toRate;
+
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, samples.length - 1);
+    const frac = pos - index;
+    out[i] = Math.round(samples[index] * (1 - frac) + samples[next] * frac);
+  }
+  return out;
+}
@@ -1,9 +1,17 @@
 // src/core/ChatClient.ts
 
 import WebSocket from 'ws';
-import { EventEmitter } from 'events';
-import type { SpeakerRequest, OccupancyUpdate } from '../types';
+import { TypedEventEmitter, SpaceEvents, UserPresence } from '../events';
+import type {
+  ChatMessage,
+  SpeakerRequest,
+  OccupancyUpdate,
+  ReconnectOptions,
+  ReconnectingEvent,
+  ReconnectedEvent,
+} from '../types';
 import { Logger } from '../logger';
+import { retryWithBackoff } from '../utils';
 
 /**
  * Configuration object for ChatClient.
@@ -28,20 +36,30 @@ interface ChatClientConfig {
    * An instance of Logger for debug/info logs.
    */
   logger: Logger;
+
+  /**
+   * How to reconnect when the socket closes unexpectedly.
+   */
+  reconnect?: ReconnectOptions;
 }
 
 /**
  * ChatClient handles the WebSocket connection to the Twitter/Periscope chat API.
  * It emits events such as "speakerRequest", "occupancyUpdate", "muteStateChanged", etc.
+ * If the socket closes unexpectedly, it reconnects with backoff, emitting "reconnecting" and "reconnected"
+ * (or "reconnectFailed" once it gives up).
  */
-export class ChatClient extends EventEmitter {
+export class ChatClient extends TypedEventEmitter<SpaceEvents> {
   private ws?: WebSocket;
   private connected = false;
+  private closedByUser = false;
+  private reconnecting = false;
 
   private readonly logger: Logger;
   private readonly spaceId: string;
   private readonly accessToken: string;
   private endpoint: string;
+  private readonly reconnectOptions?: ReconnectOptions;
 
   constructor(config: ChatClientConfig) {
     super();
@@ -49,12 +67,22 @@ export class ChatClient extends EventEmitter {
     this.accessToken = config.accessToken;
     this.endpoint = config.endpoint;
     this.logger = config.logger;
+    this.reconnectOptions = config.reconnect;
   }
 
   /**
    * Establishes a WebSocket connection to the chat endpoint and sets up event handlers.
    */
   public async connect(): Promise<void> {
+    this.closedByUser = false;
+    await this.openSocket();
+  }
+
+  /**
+   * Opens a new socket. Unlike connect(), it leaves closedByUser alone so a reconnect
+   * attempt can't undo a disconnect().
+   */
+  private async openSocket(): Promise<void> {
     const wsUrl = `${this.endpoint}/chatapi/v1/chatnow`.replace(
       'https://',
       'wss://',
@@ -79,31 +107,82 @@ export class ChatClient extends EventEmitter {
       throw new Error('[ChatClient] No WebSocket instance available');
     }
 
+    const ws = this.ws;
     return new Promise((resolve, reject) => {
-      this.ws!.on('open', () => {
+      ws.on('open', () => {
         this.logger.info('[ChatClient] Connected');
         this.connected = true;
         this.sendAuthAndJoin();
         resolve();
       });
 
-      this.ws!.on('message', (data: { toString: () => string }) => {
+      ws.on('message', (data: { toString: () => string }) => {
         this.handleMessage(data.toString());
       });
 
-      this.ws!.on('close', () => {
+      ws.on('close', () => {
+        // Ignore sockets that were already replaced by a reconnect
+        if (ws !== this.ws) return;
+
         this.logger.info('[ChatClient] Closed');
         this.connected = false;
         this.emit('disconnected');
+
+        if (!this.closedByUser && !this.reconnecting) {
+          this.reconnect();
+        }
       });
 
-      this.ws!.on('error', (err) => {
+      ws.on('error', (err) => {
         this.logger.error('[ChatClient] Error =>', err);
         reject(err);
       });
     });
   }
 
+  /**
+   * Opens a new socket with backoff until it connects; the "open" handler re-sends auth and join.
+   */
+  private async reconnect(): Promise<void> {
+    this.reconnecting = true;
+    try {
+      const attempts = await retryWithBackoff(
+        () => this.openSocket(),
+        this.reconnectOptions,
+        (attempt, delayMs) => {
+          this.logger.warn(
+            `[ChatClient] Reconnecting => attempt=${attempt}, delay=${delayMs}ms`,
+          );
+          const evt: ReconnectingEvent = {
+            component: 'chat',
+            attempt,
+            delayMs,
+          };
+          this.emit('reconnecting', evt);
+        },
+        () => this.closedByUser,
+      );
+
+      if (attempts === undefined || this.closedByUser) {
+        // disconnect() was called meanwhile; drop a socket opened by the last attempt
+        this.ws?.close();
+        this.ws = undefined;
+        this.connected = false;
+        this.logger.info('[ChatClient] Reconnect cancelled');
+        return;
+      }
+
+      this.logger.info('[ChatClient] Reconnected');
+      const evt: ReconnectedEvent = { component: 'chat', attempts };
+      this.emit('reconnected', evt);
+    } catch (err) {
+      this.logger.error('[ChatClient] Giving up reconnecting =>', err);
+      this.emit('reconnectFailed', err);
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
   /**
    * Sends two WebSocket messages to authenticate and join the specified space.
    */
@@ -165,6 +244,30 @@ export class ChatClient extends EventEmitter {
     this.ws.send(payload);
   }
 
+  /**
+   * Posts a text message to the chat.
+   * @param text - The message to send.
+   */
+  public sendChatMessage(text: string): void {
+    if (!this.ws || !this.connected) {
+      this.logger.warn(
+        '[ChatClient] Not connected or WebSocket missing; ignoring sendChatMessage.',
+      );
+      return;
+    }
+
+    // Same envelope as reactWithEmoji, with type 1 for a text comment
+    const body = JSON.stringify({ body: text, type: 1, v: 2 });
+    const payload = JSON.stringify({
+      body,
+      kind: 1,
+      payload: JSON.stringify({ room: this.spaceId, body }),
+      type: 2,
+    });
+
+    this.ws.send(payload);
+  }
+
   /**
    * Handles inbound WebSocket messages, parsing JSON payloads
    * and emitting relevant events (speakerRequest, occupancyUpdate, etc.).
@@ -179,6 +282,23 @@ export class ChatClient extends EventEmitter {
     if (!msg.payload) return;
 
     const payload = safeJson(msg.payload);
+
+    // Presence => control messages (kind=2) with payload kind 1 (join) or 2 (leave)
+    if (
+      msg.kind === 2 &&
+      payload?.sender &&
+      (payload.kind === 1 || payload.kind === 2)
+    ) {
+      const user: UserPresence = {
+        userId: payload.sender.user_id,
+        username: payload.sender.username,
+        displayName:
+          payload.sender.display_name || payload.sender.username || '',
+      };
+      this.emit(payload.kind === 1 ? 'userJoined' : 'userLeft', user);
+      return;
+    }
+
     if (!payload?.body) return;
 
     const body = safeJson(payload.body);
@@ -226,7 +346,24 @@ export class ChatClient extends EventEmitter {
       });
     }
 
-    // 5) Reaction => body.type=2
+    // 5) Text comment => body.type=1
+    if (body?.type === 1 && typeof body.body === 'string') {
+      const message: ChatMessage = {
+        sender: {
+          userId: payload.sender?.user_id ?? body.user_id,
+          username: payload.sender?.username ?? body.username,
+          displayName:
+            payload.sender?.display_name ?? body.displayName ?? body.username,
+        },
+        text: body.body,
+        timestamp: new Date(
+          typeof body.timestamp === 'number' ? body.timestamp : Date.now(),
+        ),
+      };
+      this.emit('chatMessage', message);
+    }
+
+    // 6) Reaction => body.type=2
     if (body?.type === 2) {
       this.logger.debug('[ChatClient] Emitting guestReaction =>', body);
       this.emit('guestReaction', {
@@ -240,6 +377,7 @@ export class ChatClient extends EventEmitter {
    * Closes the WebSocket connection if open, and resets internal state.
    */
   public async disconnect(): Promise<void> {
+    this.closedByUser = true;
     if (this.ws) {
       this.logger.info('[ChatClient] Disconnecting...');
       this.ws.close();
@@ -0,0 +1,125 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ChatTurn } from '../providers/types';
+import { ConversationMemory, FileMemoryStore } from './ConversationMemory';
+
+// One token per character keeps the budgets easy to follow
+const countTokens = (text: string) => text.length;
+
+function fakeSummarizer(summary: string) {
+  const requests: ChatTurn[][] = [];
+  return {
+    requests,
+    summarizer: {
+      generateReply: async (messages: ChatTurn[]) => {
+        requests.push(messages);
+        return ` ${summary} `;
+      },
+    },
+  };
+}
+
+test('speaker turns are tagged with their username', () => {
+  const memory = new ConversationMemory();
+  memory.add('user', 'hello', { userId: '1', username: 'alice' });
+  memory.add('assistant', 'hi alice');
+
+  const messages = memory.toMessages('Be nice.');
+
+  expect(messages[0].role).toEqual('system');
+  expect(messages[0].content).toContain('@username');
+  expect(messages.slice(1)).toEqual([
+    { role: 'user', content: '@alice: hello' },
+    { role: 'assistant', content: 'hi alice' },
+  ]);
+});
+
+test('compaction folds the oldest turns into the summary and keeps recent ones', async () => {
+  const { summarizer, requests } = fakeSummarizer('alice asked about a1');
+  const memory = new ConversationMemory({
+    maxTokens: 10,
+    keepRecentTurns: 2,
+    countTokens,
+    summarizer,
+  });
+  for (const text of ['a1', 'a2', 'a3', 'a4', 'a5']) {
+    memory.add('user', `${text}${'.'.repeat(8)}`);
+  }
+
+  await memory.compact();
+
+  expect(requests).toHaveLength(1);
+  expect(requests[0][1].content).toContain('a1');
+  expect(requests[0][1].content).toContain('a3');
+  expect(memory.getSummary()).toEqual('alice asked about a1');
+  expect(memory.getTurns().map((turn) => turn.content.slice(0, 2))).toEqual([
+    'a4',
+    'a5',
+  ]);
+  expect(memory.toMessages('Be nice.')[0].content).toContain(
+    'alice asked about a1',
+  );
+});
+
+test('recent turns are kept even when they exceed the budget', async () => {
+  const memory = new ConversationMemory({
+    maxTokens: 5,
+    keepRecentTurns: 2,
+    countTokens,
+  });
+  memory.add('user', 'first question');
+  memory.add('assistant', 'first answer');
+
+  await memory.compact();
+
+  expect(memory.getTurns()).toHaveLength(2);
+  expect(memory.getSummary()).toEqual('');
+});
+
+test('without a summarizer, the oldest turns are dropped', async () => {
+  const memory = new ConversationMemory({
+    maxTokens: 20,
+    keepRecentTurns: 1,
+    countTokens,
+  });
+  memory.add('user', 'one'.repeat(5));
+  memory.add('assistant', 'two'.repeat(5));
+
+  await memory.compact();
+
+  expect(memory.getTurns().map((turn) => turn.content)).toEqual([
+    'two'.repeat(5),
+  ]);
+  expect(memory.getSummary()).toEqual('');
+});
+
+describe('with a file store', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'memory-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('memories are restored by space ID', async () => {
+    const store = new FileMemoryStore(directory);
+    const memory = new ConversationMemory({ store });
+    memory.add('user', 'remember me', { userId: '1', username: 'alice' });
+    await memory.save('space/1');
+
+    const restored = new ConversationMemory({ store });
+    expect(await restored.restore('space/1')).toBeTruthy();
+    expect(restored.getTurns()).toEqual(memory.getTurns());
+    expect(await restored.restore('space/2')).toBeFalsy();
+  });
+
+  test('memories cannot be saved without a store', async () => {
+    await expect(new ConversationMemory().save('space')).rejects.toThrow(
+      'No store configured',
+    );
+  });
+});
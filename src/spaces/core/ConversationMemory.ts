@@ -0,0 +1,303 @@
+// src/core/ConversationMemory.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ChatModelProvider, ChatTurn } from '../providers/types';
+
+/**
+ * One message kept in memory. User turns carry the speaker who said them.
+ */
+export interface MemoryTurn extends ChatTurn {
+  userId?: string;
+  username?: string;
+  timestamp: number;
+}
+
+/**
+ * Everything needed to restore a memory, as persisted by a MemoryStore.
+ */
+export interface MemorySnapshot {
+  spaceId: string;
+  summary: string;
+  turns: MemoryTurn[];
+  savedAt: string;
+}
+
+/**
+ * Where memories are persisted, keyed by space ID.
+ */
+export interface MemoryStore {
+  load(spaceId: string): Promise<MemorySnapshot | undefined>;
+  save(snapshot: MemorySnapshot): Promise<void>;
+}
+
+export interface ConversationMemoryOptions {
+  /**
+   * Token budget for the summary and turns, not counting the system prompt. (Default: 3000)
+   */
+  maxTokens?: number;
+
+  /**
+   * Number of most recent turns that are never summarized. (Default: 6)
+   */
+  keepRecentTurns?: number;
+
+  /**
+   * Model used to fold older turns into the running summary.
+   * Without one, older turns are dropped instead.
+   */
+  summarizer?: ChatModelProvider;
+
+  /**
+   * Estimates the token count of a text. (Default: 1 token per 4 characters)
+   */
+  countTokens?: (text: string) => number;
+
+  /**
+   * Used by save() and restore(). (Default: none)
+   */
+  store?: MemoryStore;
+}
+
+const SUMMARY_PROMPT =
+  'You maintain a running summary of a live audio conversation. Merge the previous ' +
+  'summary and the new transcript into one concise summary. Keep who said what ' +
+  '(by @username), facts, open questions and commitments. Reply with the summary only.';
+
+/**
+ * ConversationMemory
+ * ------------------
+ * Keeps the conversation of an AI speaker within a token budget. User turns are tagged with
+ * the speaker's username so the model can tell who said what. When the budget is exceeded,
+ * compact() folds the oldest turns into a running summary.
+ *
+ * Memories can be saved to a {@link MemoryStore} and restored in a later Space by space ID.
+ */
+export class ConversationMemory {
+  private readonly maxTokens: number;
+  private readonly keepRecentTurns: number;
+  private readonly summarizer?: ChatModelProvider;
+  private readonly countTokens: (text: string) => number;
+  private readonly store?: MemoryStore;
+
+  private turns: MemoryTurn[] = [];
+  private summary = '';
+
+  /**
+   * The compaction in progress, if any
+   */
+  private compacting?: Promise<void>;
+
+  constructor(options?: ConversationMemoryOptions) {
+    this.maxTokens = options?.maxTokens ?? 3000;
+    this.keepRecentTurns = options?.keepRecentTurns ?? 6;
+    this.summarizer = options?.summarizer;
+    this.countTokens =
+      options?.countTokens ?? ((text) => Math.ceil(text.length / 4));
+    this.store = options?.store;
+  }
+
+  /**
+   * Appends a turn. The returned turn can still be edited (e.g. while a reply streams in)
+   * or passed to remove().
+   */
+  public add(
+    role: ChatTurn['role'],
+    content: string,
+    speaker?: { userId: string; username?: string },
+  ): MemoryTurn {
+    const turn: MemoryTurn = {
+      role,
+      content,
+      userId: speaker?.userId,
+      username: speaker?.username,
+      timestamp: Date.now(),
+    };
+    this.turns.push(turn);
+    return turn;
+  }
+
+  public remove(turn: MemoryTurn) {
+    const index = this.turns.indexOf(turn);
+    if (index !== -1) this.turns.splice(index, 1);
+  }
+
+  public getTurns(): MemoryTurn[] {
+    return [...this.turns];
+  }
+
+  public getSummary(): string {
+    return this.summary;
+  }
+
+  public clear() {
+    this.turns = [];
+    this.summary = '';
+  }
+
+  /**
+   * Estimated size of the summary and turns, in tokens.
+   */
+  public getTokenCount(): number {
+    return this.turns.reduce(
+      (acc, turn) => acc + this.countTokens(formatTurn(turn)),
+      this.summary ? this.countTokens(this.summary) : 0,
+    );
+  }
+
+  /**
+   * Builds the messages for a chat model: the system prompt with the summary, then every turn.
+   * User turns are prefixed with the speaker's @username.
+   */
+  public toMessages(systemPrompt: string): ChatTurn[] {
+    let system = systemPrompt;
+    if (this.turns.some((turn) => turn.role === 'user' && turn.username)) {
+      system += '\nMessages from speakers start with their @username.';
+    }
+    if (this.summary) {
+      system += `\n\nSummary of the conversation so far:\n${this.summary}`;
+    }
+
+    return [
+      { role: 'system', content: system },
+      ...this.turns
+        .filter((turn) => turn.content)
+        .map((turn) => ({ role: turn.role, content: formatTurn(turn) })),
+    ];
+  }
+
+  /**
+   * Folds the oldest turns into the summary until the memory fits its token budget.
+   * Concurrent calls share the compaction in progress.
+   *
+   * If summarizing fails, those turns are dropped anyway so the budget holds, and the error is rethrown.
+   */
+  public compact(): Promise<void> {
+    if (!this.compacting) {
+      this.compacting = this.summarizeOldest().finally(() => {
+        this.compacting = undefined;
+      });
+    }
+    return this.compacting;
+  }
+
+  /**
+   * Persists the summary and turns under a space ID.
+   */
+  public async save(spaceId: string): Promise<void> {
+    await this.requireStore().save({
+      spaceId,
+      summary: this.summary,
+      turns: this.getTurns(),
+      savedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Replaces the memory with the one saved under a space ID.
+   * @returns Whether a saved memory was found.
+   */
+  public async restore(spaceId: string): Promise<boolean> {
+    const snapshot = await this.requireStore().load(spaceId);
+    if (!snapshot) return false;
+
+    this.summary = snapshot.summary;
+    this.turns = snapshot.turns;
+    return true;
+  }
+
+  private async summarizeOldest() {
+    const overflow = this.takeOverflow();
+    if (overflow.length === 0) return;
+
+    try {
+      if (this.summarizer) {
+        this.summary = await this.summarize(this.summarizer, overflow);
+      }
+    } finally {
+      this.turns = this.turns.filter((turn) => !overflow.includes(turn));
+    }
+  }
+
+  /**
+   * Picks the oldest turns that must go for the memory to fit its budget,
+   * leaving the most recent ones alone
+   */
+  private takeOverflow(): MemoryTurn[] {
+    let excess = this.getTokenCount() - this.maxTokens;
+    const candidates = this.turns.slice(
+      0,
+      Math.max(0, this.turns.length - this.keepRecentTurns),
+    );
+
+    const overflow: MemoryTurn[] = [];
+    for (const turn of candidates) {
+      if (excess <= 0) break;
+      overflow.push(turn);
+      excess -= this.countTokens(formatTurn(turn));
+    }
+    return overflow;
+  }
+
+  private async summarize(
+    summarizer: ChatModelProvider,
+    turns: MemoryTurn[],
+  ): Promise<string> {
+    const transcript = turns
+      .map((turn) => `${turn.role}: ${formatTurn(turn)}`)
+      .join('\n');
+
+    const summary = await summarizer.generateReply([
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Previous summary:\n${
+          this.summary || '(none)'
+        }\n\nTranscript:\n${transcript}`,
+      },
+    ]);
+    return summary.trim();
+  }
+
+  private requireStore(): MemoryStore {
+    if (!this.store) {
+      throw new Error('[ConversationMemory] No store configured');
+    }
+    return this.store;
+  }
+}
+
+/**
+ * Stores each memory as a JSON file named after the space ID.
+ */
+export class FileMemoryStore implements MemoryStore {
+  constructor(private readonly directory: string) {}
+
+  async load(spaceId: string): Promise<MemorySnapshot | undefined> {
+    try {
+      const json = await fs.readFile(this.filePath(spaceId), 'utf8');
+      return JSON.parse(json);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async save(snapshot: MemorySnapshot): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      this.filePath(snapshot.spaceId),
+      JSON.stringify(snapshot, null, 2),
+    );
+  }
+
+  private filePath(spaceId: string) {
+    return path.join(this.directory, `${encodeURIComponent(spaceId)}.json`);
+  }
+}
+
+function formatTurn(turn: MemoryTurn): string {
+  return turn.role === 'user' && turn.username
+    ? `@${turn.username}: ${turn.content}`
+    : turn.content;
+}
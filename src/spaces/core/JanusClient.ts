@@ -1,6 +1,6 @@
 // src/core/JanusClient.ts
 
-import { EventEmitter } from 'events';
+import { TypedEventEmitter, SpaceEvents } from '../events';
 import wrtc from '@roamhq/wrtc';
 const { RTCPeerConnection, MediaStream } = wrtc;
 import { JanusAudioSink, JanusAudioSource } from './JanusAudio';
@@ -54,7 +54,7 @@ interface JanusConfig {
   roomPin?: string;
 }
 
-interface JanusEvent {
+export interface JanusEvent {
   janus: string;
   transaction?: string;
   session_id?: number;
@@ -106,7 +106,7 @@ interface JanusVideoroomEvent {
  *
  * It can be used by both the host (who creates a room) or a guest speaker (who joins an existing room).
  */
-export class JanusClient extends EventEmitter {
+export class JanusClient extends TypedEventEmitter<SpaceEvents> {
   private logger: Logger;
 
   private sessionId?: number;
@@ -564,6 +564,38 @@ export class JanusClient extends EventEmitter {
     this.logger.info('[JanusClient] All WebRTC connections closed');
   }
 
+  /**
+   * Re-creates the Janus session after the connection was lost ("connectionLost" event),
+   * then joins the existing room again as publisher.
+   *  - Host: pass no sessionUUID; the room it created is joined again. Speakers must be resubscribed by the caller.
+   *  - Guest speaker: pass the speaker sessionUUID; existing publishers are resubscribed automatically.
+   */
+  public async reconnect(sessionUUID?: string): Promise<void> {
+    this.logger.info('[JanusClient] Reconnecting...');
+    await this.stop();
+    this.localAudioSource = undefined;
+    this.iceConnectionRetries = 0;
+
+    if (sessionUUID !== undefined) {
+      await this.initializeGuestSpeaker(sessionUUID);
+      return;
+    }
+
+    this.sessionId = await this.createSession();
+    this.handleId = await this.attachPlugin();
+
+    this.pollActive = true;
+    this.startPolling();
+
+    // The room still exists, so only join it again
+    this.publisherId = await this.joinRoom();
+    this.setupPeerConnection();
+    this.enableLocalAudio();
+    await this.configurePublisher();
+
+    this.logger.info('[JanusClient] Reconnected');
+  }
+
   /**
    * Returns the current Janus sessionId, if any.
    */
@@ -872,8 +904,10 @@ export class JanusClient extends EventEmitter {
    */
   private startPolling(): void {
     this.logger.debug('[JanusClient] Starting polling...');
+    // Each session gets its own poll loop, so a reconnect does not leave the old one running
+    const sessionId = this.sessionId;
     const doPoll = async () => {
-      if (!this.pollActive || !this.sessionId) {
+      if (!this.pollActive || !this.sessionId || this.sessionId !== sessionId) {
         this.logger.debug('[JanusClient] Polling stopped');
         return;
       }
@@ -897,6 +931,7 @@ export class JanusClient extends EventEmitter {
           if (resp.status === 404) {
             this.logger.error('[JanusClient] Session not found (404), polling stopped');
             this.pollActive = false;
+            this.emit('connectionLost');
             this.emit('error', new Error('[JanusClient] Session not found (404)'));
             return;
           }
@@ -921,6 +956,8 @@ export class JanusClient extends EventEmitter {
     }
     
     this.logger.debug('[JanusClient] Received Janus event:', evt.janus);
+    // Resolves anything waiting in waitForJanusEventWithPredicate
+    this.emit('janus', evt);
 
     switch (evt.janus) {
       case 'keepalive':
@@ -976,10 +1013,22 @@ export class JanusClient extends EventEmitter {
 
   private setupPeerEvents(): void {
     this.pc?.addEventListener('iceconnectionstatechange', () => {
-      this.logger.debug('[JanusClient] ICE connection state:', this.pc?.iceConnectionState);
-      if (this.pc?.iceConnectionState === 'disconnected') {
-        this.logger.warn('[JanusClient] ICE connection disconnected, attempting restart...');
-        this.restartIce();
+      const state = this.pc?.iceConnectionState;
+      this.logger.debug('[JanusClient] ICE connection state:', state);
+      if (state === 'connected' || state === 'completed') {
+        this.iceConnectionRetries = 0;
+      } else if (state === 'disconnected' || state === 'failed') {
+        if (this.iceConnectionRetries < this.maxIceRetries) {
+          this.iceConnectionRetries++;
+          this.logger.warn(
+            `[JanusClient] ICE connection ${state}, attempting restart (${this.iceConnectionRetries}/${this.maxIceRetries})...`,
+          );
+          this.restartIce();
+        } else {
+          // ICE restarts are not enough, the session has to be re-created
+          this.logger.error('[JanusClient] ICE retries exhausted, connection lost');
+          this.emit('connectionLost');
+        }
       }
     });
 
@@ -0,0 +1,72 @@
+import { Scraper } from '../../scraper';
+import {
+  authorizeToken,
+  createBroadcast,
+  getRegion,
+  startScheduledBroadcast,
+} from '../utils';
+import { Space } from './Space';
+
+// Going live fails before Janus is needed
+jest.mock('./JanusClient', () => ({ JanusClient: jest.fn() }));
+
+jest.mock('../utils', () => ({
+  ...jest.requireActual('../utils'),
+  getRegion: jest.fn(),
+  createBroadcast: jest.fn(),
+  startScheduledBroadcast: jest.fn(),
+  authorizeToken: jest.fn(),
+}));
+
+const broadcast = {
+  room_id: 'room',
+  access_token: 'chat-token',
+  broadcast: { user_id: '1' },
+};
+
+const scraper = {
+  getPeriscopeCookie: async () => 'cookie',
+} as unknown as Scraper;
+
+const originalFetch = global.fetch;
+let requests: string[];
+
+beforeEach(() => {
+  requests = [];
+  global.fetch = jest.fn(async (input: RequestInfo | URL) => {
+    requests.push(String(input));
+    return new Response('{}');
+  }) as typeof fetch;
+
+  jest.mocked(getRegion).mockResolvedValue('us-east-1');
+  jest.mocked(createBroadcast).mockResolvedValue(broadcast as any);
+  jest.mocked(startScheduledBroadcast).mockResolvedValue(broadcast as any);
+  jest.mocked(authorizeToken).mockRejectedValue(new Error('Unauthorized'));
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+test('a Space that fails to go live ends its broadcast and can be retried', async () => {
+  const space = new Space(scraper);
+
+  await expect(
+    space.initialize({ mode: 'BROADCAST', record: false }),
+  ).rejects.toThrow('Unauthorized');
+
+  expect(space.state).toEqual('idle');
+  expect(requests.some((url) => url.endsWith('/endAudiospace'))).toBeTruthy();
+});
+
+test('a scheduled Space that fails to go live stays scheduled', async () => {
+  const space = new Space(scraper);
+
+  await expect(
+    space.startScheduled('scheduled', { mode: 'BROADCAST', record: false }),
+  ).rejects.toThrow('Unauthorized');
+
+  expect(space.state).toEqual('idle');
+  expect(requests.some((url) => url.endsWith('/endAudiospace'))).toBeFalsy();
+});
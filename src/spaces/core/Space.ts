@@ -1,17 +1,24 @@
 // src/core/Space.ts
 
-import { EventEmitter } from 'events';
+import { TypedEventEmitter, SpaceEvents, SpaceState } from '../events';
 import { ChatClient } from './ChatClient';
 import { JanusClient } from './JanusClient';
 import {
   getTurnServers,
   createBroadcast,
   publishBroadcast,
+  updateScheduledBroadcast,
+  cancelScheduledBroadcast,
+  startScheduledBroadcast,
   authorizeToken,
   getRegion,
   muteSpeaker,
   unmuteSpeaker,
+  inviteCohost,
+  removeCohost,
+  getCohosts,
   setupCommonChatEvents,
+  retryWithBackoff,
 } from '../utils';
 import type {
   BroadcastCreated,
@@ -19,15 +26,45 @@ import type {
   AudioDataWithUser,
   PluginRegistration,
   SpeakerInfo,
+  ChatMessage,
+  ReconnectOptions,
+  ReconnectingEvent,
+  ReconnectedEvent,
+  ScheduledSpace,
+  ScheduledSpaceConfig,
+  CohostInfo,
 } from '../types';
 import { Scraper } from '../../scraper';
 import { Logger } from '../logger';
+import { InvalidStateError } from '../../errors';
+
+/**
+ * The states each Space lifecycle state can move to.
+ */
+const spaceTransitions: Record<SpaceState, SpaceState[]> = {
+  idle: ['creating'],
+  creating: ['live', 'idle'],
+  live: ['stopping'],
+  stopping: ['ended'],
+  ended: [],
+};
 
 export interface SpaceConfig {
   mode: 'BROADCAST' | 'LISTEN' | 'INTERACTIVE';
   title?: string;
   description?: string;
   languages?: string[];
+
+  /**
+   * Topic IDs, as returned by Scraper.browseSpaceTopics().
+   */
+  topics?: string[];
+
+  /**
+   * ID of the community to host the Space in, as returned by Scraper.communitySelectQuery().
+   */
+  communityId?: string;
+
   debug?: boolean;
   record: boolean;
 }
@@ -38,28 +75,49 @@ export interface SpaceConfig {
  * 2) Sets up Janus WebRTC for audio
  * 3) Optionally creates a ChatClient for interactive mode
  * 4) Allows managing (approve/remove) speakers, pushing audio, etc.
+ *
+ * Dropped chat and Janus connections are re-established with backoff, emitting
+ * "reconnecting" and "reconnected" (or "reconnectFailed" once it gives up).
  */
-export class Space extends EventEmitter {
+export class Space extends TypedEventEmitter<SpaceEvents> {
   private readonly debug: boolean;
   private readonly logger: Logger;
+  private readonly reconnectOptions?: ReconnectOptions;
+  private readonly chatHistorySize: number;
 
   private janusClient?: JanusClient;
   private chatClient?: ChatClient;
 
   private authToken?: string;
   private broadcastInfo?: BroadcastCreated;
-  private isInitialized = false;
+  private currentState: SpaceState = 'idle';
+  private isReconnectingJanus = false;
 
   private plugins = new Set<PluginRegistration>();
   private speakers = new Map<string, SpeakerInfo>();
+  private chatHistory: ChatMessage[] = [];
+
+  /**
+   * userId => username, learned from speaker requests
+   */
+  private requesterUsernames = new Map<string, string>();
 
   constructor(
     private readonly scraper: Scraper,
-    options?: { debug?: boolean },
+    options?: {
+      debug?: boolean;
+      reconnect?: ReconnectOptions;
+      /**
+       * Number of chat messages kept by getChatHistory(). (Default: 100)
+       */
+      chatHistorySize?: number;
+    },
   ) {
     super();
     this.debug = options?.debug ?? false;
     this.logger = new Logger(this.debug);
+    this.reconnectOptions = options?.reconnect;
+    this.chatHistorySize = options?.chatHistorySize ?? 100;
   }
 
   /**
@@ -74,7 +132,7 @@ export class Space extends EventEmitter {
     plugin.onAttach?.({ space: this, pluginConfig: config });
 
     // If we've already initialized this Space, immediately call plugin.init(...)
-    if (this.isInitialized && plugin.init) {
+    if (this.currentState === 'live' && plugin.init) {
       plugin.init({ space: this, pluginConfig: config });
       // If Janus is also up, call onJanusReady
       if (this.janusClient) {
@@ -85,26 +143,221 @@ export class Space extends EventEmitter {
     return this;
   }
 
+  /**
+   * The current lifecycle state: idle → creating → live → stopping → ended.
+   */
+  public get state(): SpaceState {
+    return this.currentState;
+  }
+
   /**
    * Main entry point to create and initialize the Space broadcast.
+   * Only allowed while idle; if it fails, the Space goes back to idle so it can be retried.
    */
   public async initialize(config: SpaceConfig) {
-    this.logger.debug('[Space] Initializing...');
+    const liveConfig = {
+      ...config,
+      title: config.title || '',
+      topics: config.topics ?? [],
+    };
+    return this.goLive('initialize', liveConfig, true, (cookie, region) =>
+      createBroadcast({
+        title: config.title,
+        description: config.description,
+        languages: config.languages,
+        topics: config.topics,
+        communityId: config.communityId,
+        cookie,
+        region,
+        record: config.record,
+      }),
+    );
+  }
+
+  /**
+   * Announces a Space that starts later. Listeners can find it and set reminders in the meantime.
+   * The Space itself stays idle; call startScheduled(...) when it's time to go live.
+   */
+  public async schedule(config: ScheduledSpaceConfig): Promise<ScheduledSpace> {
+    if (config.startAt.getTime() <= Date.now()) {
+      throw new Error('[Space] schedule => startAt must be in the future');
+    }
+
+    await this.validateTargeting(config.topics, config.communityId);
 
-    // 1) Obtain the Periscope cookie + region
     const cookie = await this.scraper.getPeriscopeCookie();
     const region = await getRegion();
-    this.logger.debug('[Space] Got region =>', region);
-
-    // 2) Create a broadcast
-    this.logger.debug('[Space] Creating broadcast...');
     const broadcast = await createBroadcast({
+      title: config.title,
       description: config.description,
       languages: config.languages,
+      topics: config.topics,
+      communityId: config.communityId,
+      scheduledStartTime: config.startAt,
       cookie,
       region,
-      record: config.record,
+      record: config.record ?? false,
+    });
+
+    const scheduled: ScheduledSpace = {
+      id: broadcast.room_id,
+      shareUrl: broadcast.share_url.replace('broadcasts', 'spaces'),
+      startAt: config.startAt,
+    };
+    this.logger.info('[Space] Scheduled =>', scheduled.shareUrl);
+    return scheduled;
+  }
+
+  /**
+   * Changes the details of a scheduled Space. Fields that are not set keep their current value.
+   */
+  public async updateScheduled(
+    scheduledId: string,
+    changes: Partial<Omit<ScheduledSpaceConfig, 'record' | 'communityId'>>,
+  ) {
+    if (changes.startAt && changes.startAt.getTime() <= Date.now()) {
+      throw new Error(
+        '[Space] updateScheduled => startAt must be in the future',
+      );
+    }
+    await this.validateTargeting(changes.topics);
+
+    const cookie = await this.scraper.getPeriscopeCookie();
+    await updateScheduledBroadcast({
+      broadcastId: scheduledId,
+      cookie,
+      title: changes.title,
+      description: changes.description,
+      languages: changes.languages,
+      topics: changes.topics,
+      scheduledStartTime: changes.startAt,
     });
+    this.logger.info('[Space] Updated scheduled Space =>', scheduledId);
+  }
+
+  /**
+   * Cancels a scheduled Space before it starts.
+   */
+  public async cancelScheduled(scheduledId: string) {
+    const cookie = await this.scraper.getPeriscopeCookie();
+    await cancelScheduledBroadcast({ broadcastId: scheduledId, cookie });
+    this.logger.info('[Space] Canceled scheduled Space =>', scheduledId);
+  }
+
+  /**
+   * Starts a scheduled Space, going through the same steps as initialize(...).
+   * The title and topics it was scheduled with are kept unless config overrides them.
+   * Only allowed while idle; if it fails, the Space goes back to idle so it can be retried.
+   * The scheduled broadcast is left as is on failure, rather than ended.
+   */
+  public async startScheduled(scheduledId: string, config: SpaceConfig) {
+    return this.goLive(
+      'start a scheduled Space',
+      config,
+      false,
+      (cookie, region) =>
+        startScheduledBroadcast({ broadcastId: scheduledId, cookie, region }),
+    );
+  }
+
+  /**
+   * @param endOnFailure Whether to end the broadcast if going live fails. Broadcasts
+   * that were scheduled are kept, so starting them can be retried.
+   */
+  private async goLive(
+    operation: string,
+    config: SpaceConfig,
+    endOnFailure: boolean,
+    obtainBroadcast: (
+      cookie: string,
+      region: string,
+    ) => Promise<BroadcastCreated>,
+  ) {
+    this.assertState(operation, 'idle');
+    this.setState('creating');
+
+    try {
+      return await this.createLiveBroadcast(config, obtainBroadcast);
+    } catch (err) {
+      await this.releaseFailedBroadcast(endOnFailure);
+      this.setState('idle');
+      throw err;
+    }
+  }
+
+  /**
+   * Releases whatever goLive(...) set up before failing, and ends the broadcast if asked to.
+   * Cleanup errors are only logged, so the original failure is what the caller sees.
+   */
+  private async releaseFailedBroadcast(endBroadcast: boolean) {
+    const chatClient = this.chatClient;
+    const janusClient = this.janusClient;
+    const broadcast = this.broadcastInfo;
+    this.chatClient = undefined;
+    this.janusClient = undefined;
+
+    await chatClient?.disconnect().catch((err) => {
+      this.logger.error('[Space] Cleanup: chat disconnect error =>', err);
+    });
+    await janusClient?.stop().catch((err) => {
+      this.logger.error('[Space] Cleanup: Janus stop error =>', err);
+    });
+
+    if (broadcast && endBroadcast) {
+      await this.endAudiospace({
+        broadcastId: broadcast.room_id,
+        chatToken: broadcast.access_token,
+      }).catch((err) => {
+        this.logger.error('[Space] Cleanup: endAudiospace error =>', err);
+      });
+    }
+    this.broadcastInfo = undefined;
+    this.authToken = undefined;
+  }
+
+  /**
+   * Checks topic and community IDs against the ones Twitter offers to this account,
+   * so a typo fails loudly instead of leaving the Space undiscoverable.
+   */
+  private async validateTargeting(topics?: string[], communityId?: string) {
+    if (topics && topics.length > 0) {
+      const available = new Set(
+        (await this.scraper.browseSpaceTopics()).map((t) => t.topic_id),
+      );
+      const unknown = topics.filter((id) => !available.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`[Space] Unknown topic IDs => ${unknown.join(', ')}`);
+      }
+    }
+
+    if (communityId) {
+      const communities = await this.scraper.communitySelectQuery();
+      if (!communities.some((c) => c.rest_id === communityId)) {
+        throw new Error(
+          `[Space] Community ${communityId} is not available for hosting Spaces`,
+        );
+      }
+    }
+  }
+
+  private async createLiveBroadcast(
+    config: SpaceConfig,
+    obtainBroadcast: (
+      cookie: string,
+      region: string,
+    ) => Promise<BroadcastCreated>,
+  ) {
+    this.logger.debug('[Space] Initializing...');
+    await this.validateTargeting(config.topics, config.communityId);
+
+    // 1) Obtain the Periscope cookie + region
+    const cookie = await this.scraper.getPeriscopeCookie();
+    const region = await getRegion();
+    this.logger.debug('[Space] Got region =>', region);
+
+    // 2) Create a broadcast
+    this.logger.debug('[Space] Creating broadcast...');
+    const broadcast = await obtainBroadcast(cookie, region);
     this.broadcastInfo = broadcast;
 
     // 3) Authorize to get an auth token
@@ -133,6 +386,11 @@ export class Space extends EventEmitter {
       this.handleAudioData(data);
     });
 
+    // Surface Janus failures to whoever listens on the Space
+    this.janusClient.on('error', (err) => {
+      this.emit('error', err);
+    });
+
     // Update speaker info once we subscribe
     this.janusClient.on('subscribedSpeaker', ({ userId, feedId }) => {
       const speaker = this.speakers.get(userId);
@@ -149,15 +407,22 @@ export class Space extends EventEmitter {
       );
     });
 
+    // Re-create the session if the connection drops for good
+    this.janusClient.on('connectionLost', () => {
+      this.reconnectJanus();
+    });
+
     // 6) Publish the broadcast so it's live
     this.logger.debug('[Space] Publishing broadcast...');
     await publishBroadcast({
-      title: config.title || '',
+      title: config.title,
       broadcast,
       cookie,
       janusSessionId: this.janusClient.getSessionId(),
       janusHandleId: this.janusClient.getHandleId(),
       janusPublisherId: this.janusClient.getPublisherId(),
+      topics: config.topics,
+      communityId: config.communityId,
     });
 
     // 7) If interactive => set up ChatClient
@@ -168,6 +433,7 @@ export class Space extends EventEmitter {
         accessToken: broadcast.access_token,
         endpoint: broadcast.endpoint,
         logger: this.logger,
+        reconnect: this.reconnectOptions,
       });
       await this.chatClient.connect();
       this.setupChatEvents();
@@ -177,7 +443,7 @@ export class Space extends EventEmitter {
       '[Space] Initialized =>',
       broadcast.share_url.replace('broadcasts', 'spaces'),
     );
-    this.isInitialized = true;
+    this.setState('live');
 
     // Call plugin.init(...) and onJanusReady(...) for all plugins now that we're set
     for (const { plugin, config: pluginConfig } of this.plugins) {
@@ -189,46 +455,138 @@ export class Space extends EventEmitter {
     return broadcast;
   }
 
+  /**
+   * Re-creates the Janus session with backoff, then resubscribes every known speaker.
+   */
+  private async reconnectJanus() {
+    const janusClient = this.janusClient;
+    if (
+      !janusClient ||
+      this.currentState !== 'live' ||
+      this.isReconnectingJanus
+    ) {
+      return;
+    }
+
+    const isCancelled = () =>
+      this.currentState !== 'live' || this.janusClient !== janusClient;
+
+    this.isReconnectingJanus = true;
+    try {
+      const attempts = await retryWithBackoff(
+        () => janusClient.reconnect(),
+        this.reconnectOptions,
+        (attempt, delayMs) => {
+          this.logger.warn(
+            `[Space] Reconnecting Janus => attempt=${attempt}, delay=${delayMs}ms`,
+          );
+          const evt: ReconnectingEvent = {
+            component: 'janus',
+            attempt,
+            delayMs,
+          };
+          this.emit('reconnecting', evt);
+        },
+        isCancelled,
+      );
+      if (attempts === undefined || isCancelled()) {
+        this.logger.info('[Space] Janus reconnect cancelled');
+        return;
+      }
+
+      // Feed IDs change with the new session; subscribedSpeaker fills them in again.
+      // A speaker that can't be resubscribed shouldn't cost us everyone else's audio
+      for (const speaker of this.speakers.values()) {
+        speaker.janusParticipantId = undefined;
+        try {
+          await janusClient.subscribeSpeaker(speaker.userId);
+        } catch (err) {
+          this.logger.warn(
+            `[Space] Failed to resubscribe speaker ${speaker.userId} =>`,
+            err,
+          );
+        }
+      }
+
+      this.logger.info('[Space] Janus reconnected');
+      const evt: ReconnectedEvent = { component: 'janus', attempts };
+      this.emit('reconnected', evt);
+    } catch (err) {
+      this.logger.error('[Space] Giving up reconnecting Janus =>', err);
+      this.emit('reconnectFailed', err);
+    } finally {
+      this.isReconnectingJanus = false;
+    }
+  }
+
   /**
    * Send an emoji reaction via chat, if interactive.
    */
   public reactWithEmoji(emoji: string) {
+    this.assertState('react', 'live');
     if (!this.chatClient) return;
     this.chatClient.reactWithEmoji(emoji);
   }
 
+  /**
+   * Post a text message in the chat, if interactive.
+   */
+  public sendChatMessage(text: string) {
+    this.assertState('send a chat message', 'live');
+    if (!this.chatClient) return;
+    this.chatClient.sendChatMessage(text);
+  }
+
+  /**
+   * Returns the most recent chat messages, oldest first.
+   */
+  public getChatHistory(): ChatMessage[] {
+    return [...this.chatHistory];
+  }
+
   /**
    * Internal method to wire up chat events if interactive.
    */
   private setupChatEvents() {
     if (!this.chatClient) return;
     setupCommonChatEvents(this.chatClient, this.logger, this);
+
+    this.chatClient.on('speakerRequest', ({ userId, username }) => {
+      this.requesterUsernames.set(userId, username);
+    });
+
+    this.chatClient.on('chatMessage', (message) => {
+      this.chatHistory.push(message);
+      if (this.chatHistory.length > this.chatHistorySize) {
+        this.chatHistory.shift();
+      }
+    });
   }
 
   /**
    * Approves a speaker request on Twitter side, then calls Janus to subscribe their audio.
    */
   public async approveSpeaker(userId: string, sessionUUID: string) {
-    if (!this.isInitialized || !this.broadcastInfo) {
-      throw new Error('[Space] Not initialized or missing broadcastInfo');
-    }
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token available');
-    }
+    const { broadcastInfo, authToken, janusClient } =
+      this.requireLive('approve a speaker');
 
     // Store in our local speaker map
-    this.speakers.set(userId, { userId, sessionUUID });
+    this.speakers.set(userId, {
+      userId,
+      username: this.requesterUsernames.get(userId),
+      sessionUUID,
+    });
 
     // 1) Call Twitter's /request/approve
     await this.callApproveEndpoint(
-      this.broadcastInfo,
-      this.authToken,
+      broadcastInfo,
+      authToken,
       userId,
       sessionUUID,
     );
 
     // 2) Subscribe to their audio in Janus
-    await this.janusClient?.subscribeSpeaker(userId);
+    await janusClient.subscribeSpeaker(userId);
   }
 
   /**
@@ -275,15 +633,8 @@ export class Space extends EventEmitter {
    * Removes a speaker from the Twitter side, then unsubscribes in Janus if needed.
    */
   public async removeSpeaker(userId: string) {
-    if (!this.isInitialized || !this.broadcastInfo) {
-      throw new Error('[Space] Not initialized or missing broadcastInfo');
-    }
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token');
-    }
-    if (!this.janusClient) {
-      throw new Error('[Space] No Janus client');
-    }
+    const { broadcastInfo, authToken, janusClient } =
+      this.requireLive('remove a speaker');
 
     // Find this speaker in local map
     const speaker = this.speakers.get(userId);
@@ -308,8 +659,8 @@ export class Space extends EventEmitter {
     }
 
     // 1) Eject on Twitter side
-    const janusHandleId = this.janusClient.getHandleId();
-    const janusSessionId = this.janusClient.getSessionId();
+    const janusHandleId = janusClient.getHandleId();
+    const janusSessionId = janusClient.getSessionId();
     if (!janusHandleId || !janusSessionId) {
       throw new Error(
         `[Space] removeSpeaker => missing Janus handle/session for userId=${userId}`,
@@ -317,17 +668,18 @@ export class Space extends EventEmitter {
     }
 
     await this.callRemoveEndpoint(
-      this.broadcastInfo,
-      this.authToken,
+      broadcastInfo,
+      authToken,
       sessionUUID,
       janusParticipantId,
-      this.broadcastInfo.room_id,
+      broadcastInfo.room_id,
       janusHandleId,
       janusSessionId,
     );
 
     // 2) Remove from local map
     this.speakers.delete(userId);
+    this.emit('speakerRemoved', { userId });
     this.logger.info(`[Space] removeSpeaker => removed userId=${userId}`);
   }
 
@@ -390,27 +742,21 @@ export class Space extends EventEmitter {
    * Handler for PCM from other speakers, forwarded to plugin.onAudioData
    */
   private handleAudioData(data: AudioDataWithUser) {
+    this.emit('audioDataFromSpeaker', data);
     for (const { plugin } of this.plugins) {
       plugin.onAudioData?.(data);
     }
   }
 
   /**
-   * Gracefully shut down this Space: destroy the Janus room, end the broadcast, etc.
+   * Gracefully shut down this Space by ending the broadcast. The Janus connection is
+   * closed separately by stop().
    */
   public async finalizeSpace(): Promise<void> {
     this.logger.info('[Space] finalizeSpace => stopping broadcast gracefully');
 
     const tasks: Array<Promise<any>> = [];
 
-    if (this.janusClient) {
-      tasks.push(
-        this.janusClient.destroyRoom().catch((err) => {
-          this.logger.error('[Space] destroyRoom error =>', err);
-        }),
-      );
-    }
-
     if (this.broadcastInfo) {
       tasks.push(
         this.endAudiospace({
@@ -422,14 +768,6 @@ export class Space extends EventEmitter {
       );
     }
 
-    if (this.janusClient) {
-      tasks.push(
-        this.janusClient.leaveRoom().catch((err) => {
-          this.logger.error('[Space] leaveRoom error =>', err);
-        }),
-      );
-    }
-
     await Promise.all(tasks);
     this.logger.info('[Space] finalizeSpace => done.');
   }
@@ -480,18 +818,13 @@ export class Space extends EventEmitter {
    * Mute the host (yourself). For the host, session_uuid = '' (empty).
    */
   public async muteHost() {
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token available');
-    }
-    if (!this.broadcastInfo) {
-      throw new Error('[Space] No broadcastInfo');
-    }
+    const { broadcastInfo, authToken } = this.requireLive('mute the host');
 
     await muteSpeaker({
-      broadcastId: this.broadcastInfo.room_id,
+      broadcastId: broadcastInfo.room_id,
       sessionUUID: '', // host => empty
-      chatToken: this.broadcastInfo.access_token,
-      authToken: this.authToken,
+      chatToken: broadcastInfo.access_token,
+      authToken,
     });
     this.logger.info('[Space] Host muted successfully.');
   }
@@ -500,18 +833,13 @@ export class Space extends EventEmitter {
    * Unmute the host (yourself).
    */
   public async unmuteHost() {
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token');
-    }
-    if (!this.broadcastInfo) {
-      throw new Error('[Space] No broadcastInfo');
-    }
+    const { broadcastInfo, authToken } = this.requireLive('unmute the host');
 
     await unmuteSpeaker({
-      broadcastId: this.broadcastInfo.room_id,
+      broadcastId: broadcastInfo.room_id,
       sessionUUID: '',
-      chatToken: this.broadcastInfo.access_token,
-      authToken: this.authToken,
+      chatToken: broadcastInfo.access_token,
+      authToken,
     });
     this.logger.info('[Space] Host unmuted successfully.');
   }
@@ -520,12 +848,7 @@ export class Space extends EventEmitter {
    * Mute a specific speaker. We'll retrieve sessionUUID from our local map.
    */
   public async muteSpeaker(userId: string) {
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token available');
-    }
-    if (!this.broadcastInfo) {
-      throw new Error('[Space] No broadcastInfo');
-    }
+    const { broadcastInfo, authToken } = this.requireLive('mute a speaker');
 
     const speaker = this.speakers.get(userId);
     if (!speaker) {
@@ -533,10 +856,10 @@ export class Space extends EventEmitter {
     }
 
     await muteSpeaker({
-      broadcastId: this.broadcastInfo.room_id,
+      broadcastId: broadcastInfo.room_id,
       sessionUUID: speaker.sessionUUID,
-      chatToken: this.broadcastInfo.access_token,
-      authToken: this.authToken,
+      chatToken: broadcastInfo.access_token,
+      authToken,
     });
     this.logger.info(`[Space] Muted speaker => userId=${userId}`);
   }
@@ -545,12 +868,7 @@ export class Space extends EventEmitter {
    * Unmute a specific speaker. We'll retrieve sessionUUID from local map.
    */
   public async unmuteSpeaker(userId: string) {
-    if (!this.authToken) {
-      throw new Error('[Space] No auth token available');
-    }
-    if (!this.broadcastInfo) {
-      throw new Error('[Space] No broadcastInfo');
-    }
+    const { broadcastInfo, authToken } = this.requireLive('unmute a speaker');
 
     const speaker = this.speakers.get(userId);
     if (!speaker) {
@@ -558,42 +876,135 @@ export class Space extends EventEmitter {
     }
 
     await unmuteSpeaker({
-      broadcastId: this.broadcastInfo.room_id,
+      broadcastId: broadcastInfo.room_id,
       sessionUUID: speaker.sessionUUID,
-      chatToken: this.broadcastInfo.access_token,
-      authToken: this.authToken,
+      chatToken: broadcastInfo.access_token,
+      authToken,
     });
     this.logger.info(`[Space] Unmuted speaker => userId=${userId}`);
   }
 
+  /**
+   * Invites a user to co-host. They become a co-host once they accept, and can then
+   * mute and remove speakers through SpaceParticipant.
+   */
+  public async inviteCohost(userId: string) {
+    const { broadcastInfo, authToken } = this.requireLive('invite a co-host');
+
+    await inviteCohost({
+      broadcastId: broadcastInfo.room_id,
+      userId,
+      chatToken: broadcastInfo.access_token,
+      authToken,
+    });
+    this.logger.info(`[Space] Invited co-host => userId=${userId}`);
+  }
+
+  /**
+   * Revokes a user's co-host role, or their pending invitation.
+   */
+  public async removeCohost(userId: string) {
+    const { broadcastInfo, authToken } = this.requireLive('remove a co-host');
+
+    await removeCohost({
+      broadcastId: broadcastInfo.room_id,
+      userId,
+      chatToken: broadcastInfo.access_token,
+      authToken,
+    });
+    this.logger.info(`[Space] Removed co-host => userId=${userId}`);
+  }
+
+  /**
+   * Retrieves the current co-hosts from Twitter. Pending invitations are not included.
+   */
+  public async listCohosts(): Promise<CohostInfo[]> {
+    const { broadcastInfo } = this.requireLive('list co-hosts');
+
+    const audioSpace = await this.scraper.getAudioSpaceById(
+      broadcastInfo.room_id,
+    );
+    return getCohosts(audioSpace);
+  }
+
   /**
    * Stop the broadcast entirely, performing finalizeSpace() plus plugin cleanup.
    */
   public async stop() {
+    // Stopping twice is harmless
+    if (this.currentState === 'stopping' || this.currentState === 'ended') {
+      return;
+    }
+    this.assertState('stop', 'live');
+
     this.logger.info('[Space] Stopping...');
+    this.emit('beforeStop');
+    this.setState('stopping');
 
     await this.finalizeSpace().catch((err) => {
       this.logger.error('[Space] finalizeBroadcast error =>', err);
     });
 
-    // Disconnect chat if present
-    if (this.chatClient) {
-      await this.chatClient.disconnect();
-      this.chatClient = undefined;
-    }
+    // Each step is guarded, so one failure can't leave the Space stuck in "stopping"
+    const chatClient = this.chatClient;
+    this.chatClient = undefined;
+    await chatClient?.disconnect().catch((err) => {
+      this.logger.error('[Space] Stop: chat disconnect error =>', err);
+    });
 
-    // Stop Janus if running
-    if (this.janusClient) {
-      await this.janusClient.stop();
-      this.janusClient = undefined;
-    }
+    const janusClient = this.janusClient;
+    this.janusClient = undefined;
+    await janusClient?.stop().catch((err) => {
+      this.logger.error('[Space] Stop: Janus stop error =>', err);
+    });
 
     // Cleanup all plugins
     for (const { plugin } of this.plugins) {
-      plugin.cleanup?.();
+      try {
+        plugin.cleanup?.();
+      } catch (err) {
+        this.logger.error('[Space] Stop: plugin cleanup error =>', err);
+      }
     }
     this.plugins.clear();
 
-    this.isInitialized = false;
+    this.setState('ended');
+  }
+
+  /**
+   * Throws an InvalidStateError unless the Space is in one of the allowed states.
+   */
+  private assertState(operation: string, ...allowed: SpaceState[]) {
+    if (!allowed.includes(this.currentState)) {
+      throw new InvalidStateError(operation, this.currentState, allowed);
+    }
+  }
+
+  /**
+   * Throws unless the Space is live, and returns what every live operation needs.
+   * All of these are set before the Space goes live.
+   */
+  private requireLive(operation: string) {
+    this.assertState(operation, 'live');
+    return {
+      broadcastInfo: this.broadcastInfo as BroadcastCreated,
+      authToken: this.authToken as string,
+      janusClient: this.janusClient as JanusClient,
+    };
+  }
+
+  private setState(state: SpaceState) {
+    const previous = this.currentState;
+    if (!spaceTransitions[previous].includes(state)) {
+      throw new InvalidStateError(
+        `move to ${state}`,
+        previous,
+        spaceTransitions[previous],
+      );
+    }
+
+    this.currentState = state;
+    this.logger.debug(`[Space] state => ${previous} -> ${state}`);
+    this.emit('stateChanged', { previous, state });
   }
 }
@@ -1,15 +1,20 @@
 // src/core/SpaceParticipant.ts
 
-import { EventEmitter } from 'events';
+import { TypedEventEmitter, SpaceEvents, ParticipantState } from '../events';
 import { Logger } from '../logger';
 import { ChatClient } from './ChatClient';
 import { JanusClient } from './JanusClient';
 import { Scraper } from '../../scraper';
+import { InvalidStateError } from '../../errors';
 import type {
   TurnServersInfo,
   Plugin,
   PluginRegistration,
   AudioDataWithUser,
+  ChatMessage,
+  ReconnectOptions,
+  ReconnectingEvent,
+  ReconnectedEvent,
 } from '../types';
 import {
   accessChat,
@@ -23,21 +28,52 @@ import {
   submitSpeakerRequest,
   unmuteSpeaker,
   cancelSpeakerRequest,
+  retryWithBackoff,
+  ejectSpeaker,
+  getCohosts,
 } from '../utils';
 
+/**
+ * The states each participant lifecycle state can move to.
+ */
+const participantTransitions: Record<ParticipantState, ParticipantState[]> = {
+  idle: ['listener'],
+  listener: ['requested', 'left'],
+  requested: ['speaker', 'listener', 'left'],
+  speaker: ['left'],
+  left: [],
+};
+
 interface SpaceParticipantConfig {
   spaceId: string;
   debug?: boolean;
+  reconnect?: ReconnectOptions;
+
+  /**
+   * Number of chat messages kept by getChatHistory(). (Default: 100)
+   */
+  chatHistorySize?: number;
+
+  /**
+   * How frequently (in ms) to check whether we were made co-host. (Default: 10s)
+   */
+  cohostCheckEveryMs?: number;
 }
 
 /**
  * Manages joining an existing Space in listener mode,
  * and optionally becoming a speaker via WebRTC (Janus).
+ *
+ * Dropped chat and Janus connections are re-established with backoff, emitting
+ * "reconnecting" and "reconnected" (or "reconnectFailed" once it gives up).
  */
-export class SpaceParticipant extends EventEmitter {
+export class SpaceParticipant extends TypedEventEmitter<SpaceEvents> {
   private readonly spaceId: string;
   private readonly debug: boolean;
   private readonly logger: Logger;
+  private readonly reconnectOptions?: ReconnectOptions;
+  private readonly chatHistorySize: number;
+  private readonly cohostCheckEveryMs: number;
 
   // Basic auth/cookie data
   private cookie?: string;
@@ -47,6 +83,7 @@ export class SpaceParticipant extends EventEmitter {
   private chatJwtToken?: string;
   private chatToken?: string;
   private chatClient?: ChatClient;
+  private chatHistory: ChatMessage[] = [];
 
   // Watch session
   private lifecycleToken?: string;
@@ -60,6 +97,22 @@ export class SpaceParticipant extends EventEmitter {
   private janusJwt?: string;
   private webrtcGwUrl?: string;
   private janusClient?: JanusClient;
+  private janusUserId?: string;
+  private isReconnectingJanus = false;
+
+  private currentState: ParticipantState = 'idle';
+
+  // Co-host role
+  private twitterUserId?: string;
+  private cohost = false;
+  private cohostCheckInterval?: NodeJS.Timeout;
+
+  /**
+   * userId => sessionUUID of every speaker accepted since we joined, for co-host actions.
+   * Twitter only announces a speaker's session when they are accepted; the Space's
+   * participant list doesn't include it, so speakers already on stage when we joined stay unknown.
+   */
+  private speakerSessions = new Map<string, string>();
 
   // Plugin management
   private plugins = new Set<PluginRegistration>();
@@ -72,6 +125,9 @@ export class SpaceParticipant extends EventEmitter {
     this.spaceId = config.spaceId;
     this.debug = config.debug ?? false;
     this.logger = new Logger(this.debug);
+    this.reconnectOptions = config.reconnect;
+    this.chatHistorySize = config.chatHistorySize ?? 100;
+    this.cohostCheckEveryMs = config.cohostCheckEveryMs ?? 10_000;
   }
 
   /**
@@ -93,10 +149,29 @@ export class SpaceParticipant extends EventEmitter {
     return this;
   }
 
+  /**
+   * The current lifecycle state: idle → listener → requested → speaker → left.
+   */
+  public get state(): ParticipantState {
+    return this.currentState;
+  }
+
+  /**
+   * Whether the host made us co-host. Checked periodically while in the Space;
+   * "cohostChanged" is emitted when it changes.
+   *
+   * Co-host actions (muteSpeaker, unmuteSpeaker, removeSpeaker) need the speaker's session,
+   * which is only known for speakers accepted after we joined the Space.
+   */
+  public get isCohost(): boolean {
+    return this.cohost;
+  }
+
   /**
    * Joins the Space as a listener: obtains HLS, chat token, etc.
    */
   public async joinAsListener(): Promise<void> {
+    this.assertState('join as listener', 'idle');
     this.logger.info(
       '[SpaceParticipant] Joining space as listener =>',
       this.spaceId,
@@ -134,6 +209,7 @@ export class SpaceParticipant extends EventEmitter {
       accessToken: chatInfo.access_token,
       endpoint: chatInfo.endpoint,
       logger: this.logger,
+      reconnect: this.reconnectOptions,
     });
     await this.chatClient.connect();
     this.setupChatEvents();
@@ -142,6 +218,16 @@ export class SpaceParticipant extends EventEmitter {
     this.watchSession = await startWatching(this.lifecycleToken!, this.cookie!);
 
     this.logger.info('[SpaceParticipant] Joined as listener.');
+    this.setState('listener');
+
+    // 7) Watch for being made co-host
+    this.twitterUserId = (
+      await this.scraper.me().catch(() => undefined)
+    )?.userId;
+    this.cohostCheckInterval = setInterval(
+      () => this.checkCohost(),
+      this.cohostCheckEveryMs,
+    );
 
     // Call plugin.init(...) now that we have basic "listener" mode set up
     for (const { plugin, config } of this.plugins) {
@@ -161,11 +247,7 @@ export class SpaceParticipant extends EventEmitter {
    * Returns the sessionUUID used to track approval.
    */
   public async requestSpeaker(): Promise<{ sessionUUID: string }> {
-    if (!this.chatJwtToken) {
-      throw new Error(
-        '[SpaceParticipant] Must join as listener first (no chat token).',
-      );
-    }
+    this.assertState('request to speak', 'listener');
     if (!this.authToken) {
       throw new Error('[SpaceParticipant] No auth token available.');
     }
@@ -181,6 +263,7 @@ export class SpaceParticipant extends EventEmitter {
       authToken: this.authToken,
     });
     this.sessionUUID = session_uuid;
+    this.setState('requested');
 
     this.logger.info(
       '[SpaceParticipant] Speaker request submitted =>',
@@ -194,6 +277,7 @@ export class SpaceParticipant extends EventEmitter {
    * This requires a valid sessionUUID from requestSpeaker() first.
    */
   public async cancelSpeakerRequest(): Promise<void> {
+    this.assertState('cancel a speaker request', 'requested');
     if (!this.sessionUUID) {
       throw new Error(
         '[SpaceParticipant] No sessionUUID; cannot cancel a speaker request that was never submitted.',
@@ -218,6 +302,7 @@ export class SpaceParticipant extends EventEmitter {
       this.sessionUUID,
     );
     this.sessionUUID = undefined;
+    this.setState('listener');
   }
 
   /**
@@ -225,6 +310,7 @@ export class SpaceParticipant extends EventEmitter {
    * to become a speaker.
    */
   public async becomeSpeaker(): Promise<void> {
+    this.assertState('become a speaker', 'requested');
     if (!this.sessionUUID) {
       throw new Error(
         '[SpaceParticipant] No sessionUUID (did you call requestSpeaker()?).',
@@ -250,11 +336,12 @@ export class SpaceParticipant extends EventEmitter {
     this.logger.debug('[SpaceParticipant] webrtcGwUrl =>', this.webrtcGwUrl);
 
     // 3) Create JanusClient
+    this.janusUserId = turnServers.username.split(':')[1];
     this.janusClient = new JanusClient({
       webrtcUrl: this.webrtcGwUrl!,
       roomId: this.spaceId,
       credential: this.janusJwt!,
-      userId: turnServers.username.split(':')[1],
+      userId: this.janusUserId,
       streamName: this.spaceId,
       turnServers,
       logger: this.logger,
@@ -271,6 +358,17 @@ export class SpaceParticipant extends EventEmitter {
       this.handleAudioData(data);
     });
 
+    // Surface Janus failures to whoever listens on the participant
+    this.janusClient.on('error', (err) => {
+      this.emit('error', err);
+    });
+
+    // Re-create the session if the connection drops for good
+    this.janusClient.on('connectionLost', () => {
+      this.reconnectJanus();
+    });
+
+    this.setState('speaker');
     this.logger.info(
       '[SpaceParticipant] Now speaker on the Space =>',
       this.spaceId,
@@ -282,6 +380,54 @@ export class SpaceParticipant extends EventEmitter {
     }
   }
 
+  /**
+   * Re-creates the guest speaker Janus session with backoff. Existing publishers are
+   * resubscribed as part of the guest negotiation.
+   */
+  private async reconnectJanus() {
+    const janusClient = this.janusClient;
+    const sessionUUID = this.sessionUUID;
+    if (!janusClient || !sessionUUID || this.isReconnectingJanus) return;
+
+    const isCancelled = () => this.janusClient !== janusClient;
+
+    this.isReconnectingJanus = true;
+    try {
+      const attempts = await retryWithBackoff(
+        () => janusClient.reconnect(sessionUUID),
+        this.reconnectOptions,
+        (attempt, delayMs) => {
+          this.logger.warn(
+            `[SpaceParticipant] Reconnecting Janus => attempt=${attempt}, delay=${delayMs}ms`,
+          );
+          const evt: ReconnectingEvent = {
+            component: 'janus',
+            attempt,
+            delayMs,
+          };
+          this.emit('reconnecting', evt);
+        },
+        isCancelled,
+      );
+      if (attempts === undefined || isCancelled()) {
+        this.logger.info('[SpaceParticipant] Janus reconnect cancelled');
+        return;
+      }
+
+      this.logger.info('[SpaceParticipant] Janus reconnected');
+      const evt: ReconnectedEvent = { component: 'janus', attempts };
+      this.emit('reconnected', evt);
+    } catch (err) {
+      this.logger.error(
+        '[SpaceParticipant] Giving up reconnecting Janus =>',
+        err,
+      );
+      this.emit('reconnectFailed', err);
+    } finally {
+      this.isReconnectingJanus = false;
+    }
+  }
+
   /**
    * Leaves the Space gracefully:
    * - Stop Janus if we were a speaker
@@ -289,33 +435,93 @@ export class SpaceParticipant extends EventEmitter {
    * - Disconnect chat
    */
   public async leaveSpace(): Promise<void> {
+    // Leaving twice is harmless
+    if (this.currentState === 'left') return;
+    this.assertState('leave', 'listener', 'requested', 'speaker');
+
     this.logger.info('[SpaceParticipant] Leaving space...');
 
-    // If speaker, stop Janus
-    if (this.janusClient) {
-      await this.janusClient.stop();
-      this.janusClient = undefined;
+    if (this.cohostCheckInterval) {
+      clearInterval(this.cohostCheckInterval);
+      this.cohostCheckInterval = undefined;
     }
 
+    // Each step is guarded, so one failure can't keep us from leaving.
+    // If speaker, stop Janus. Clearing it first cancels a reconnect in progress.
+    const janusClient = this.janusClient;
+    this.janusClient = undefined;
+    await janusClient?.stop().catch((err) => {
+      this.logger.error('[SpaceParticipant] Leave: Janus stop error =>', err);
+    });
+
     // Stop watching
     if (this.watchSession && this.cookie) {
-      await stopWatching(this.watchSession, this.cookie);
+      await stopWatching(this.watchSession, this.cookie).catch((err) => {
+        this.logger.error(
+          '[SpaceParticipant] Leave: stopWatching error =>',
+          err,
+        );
+      });
     }
 
     // Disconnect chat
-    if (this.chatClient) {
-      await this.chatClient.disconnect();
-      this.chatClient = undefined;
-    }
+    const chatClient = this.chatClient;
+    this.chatClient = undefined;
+    await chatClient?.disconnect().catch((err) => {
+      this.logger.error(
+        '[SpaceParticipant] Leave: chat disconnect error =>',
+        err,
+      );
+    });
 
+    this.setState('left');
     this.logger.info('[SpaceParticipant] Left space =>', this.spaceId);
   }
 
+  /**
+   * Throws an InvalidStateError unless the participant is in one of the allowed states.
+   */
+  private assertState(operation: string, ...allowed: ParticipantState[]) {
+    if (!allowed.includes(this.currentState)) {
+      throw new InvalidStateError(operation, this.currentState, allowed);
+    }
+  }
+
+  private setState(state: ParticipantState) {
+    const previous = this.currentState;
+    if (!participantTransitions[previous].includes(state)) {
+      throw new InvalidStateError(
+        `move to ${state}`,
+        previous,
+        participantTransitions[previous],
+      );
+    }
+
+    this.currentState = state;
+    this.logger.debug(`[SpaceParticipant] state => ${previous} -> ${state}`);
+    this.emit('stateChanged', { previous, state });
+  }
+
+  /**
+   * Posts a text message in the Space's chat.
+   */
+  public sendChatMessage(text: string) {
+    this.assertState('send a chat message', 'listener', 'requested', 'speaker');
+    this.chatClient?.sendChatMessage(text);
+  }
+
+  /**
+   * Returns the most recent chat messages, oldest first.
+   */
+  public getChatHistory(): ChatMessage[] {
+    return [...this.chatHistory];
+  }
+
   /**
    * Pushes PCM audio frames if we're speaker; otherwise logs a warning.
    */
   public pushAudio(samples: Int16Array, sampleRate: number) {
-    if (!this.janusClient) {
+    if (this.currentState !== 'speaker' || !this.janusClient) {
       this.logger.warn(
         '[SpaceParticipant] Not a speaker yet; ignoring pushAudio.',
       );
@@ -328,6 +534,7 @@ export class SpaceParticipant extends EventEmitter {
    * Internal handler for incoming PCM frames from Janus, forwarded to plugin.onAudioData if present.
    */
   private handleAudioData(data: AudioDataWithUser) {
+    this.emit('audioDataFromSpeaker', data);
     for (const { plugin } of this.plugins) {
       plugin.onAudioData?.(data);
     }
@@ -340,8 +547,16 @@ export class SpaceParticipant extends EventEmitter {
     if (!this.chatClient) return;
     setupCommonChatEvents(this.chatClient, this.logger, this);
 
-    this.chatClient.on('newSpeakerAccepted', ({ userId }) => {
+    this.chatClient.on('chatMessage', (message) => {
+      this.chatHistory.push(message);
+      if (this.chatHistory.length > this.chatHistorySize) {
+        this.chatHistory.shift();
+      }
+    });
+
+    this.chatClient.on('newSpeakerAccepted', ({ userId, sessionUUID }) => {
       this.logger.debug('[SpaceParticipant] newSpeakerAccepted =>', userId);
+      this.speakerSessions.set(userId, sessionUUID);
 
       // If we haven't created Janus yet, skip
       if (!this.janusClient) {
@@ -350,8 +565,8 @@ export class SpaceParticipant extends EventEmitter {
         );
         return;
       }
-      // If this is our own handle, skip
-      if (userId === this.janusClient.getHandleId()) {
+      // If this is ourselves, skip
+      if (userId === this.janusUserId) {
         return;
       }
 
@@ -366,6 +581,7 @@ export class SpaceParticipant extends EventEmitter {
    * Mute self if we are speaker: calls /audiospace/muteSpeaker with our sessionUUID.
    */
   public async muteSelf(): Promise<void> {
+    this.assertState('mute', 'speaker');
     if (!this.authToken || !this.chatToken) {
       throw new Error('[SpaceParticipant] Missing authToken or chatToken.');
     }
@@ -386,6 +602,7 @@ export class SpaceParticipant extends EventEmitter {
    * Unmute self if we are speaker: calls /audiospace/unmuteSpeaker with our sessionUUID.
    */
   public async unmuteSelf(): Promise<void> {
+    this.assertState('unmute', 'speaker');
     if (!this.authToken || !this.chatToken) {
       throw new Error('[SpaceParticipant] Missing authToken or chatToken.');
     }
@@ -401,4 +618,111 @@ export class SpaceParticipant extends EventEmitter {
     });
     this.logger.info('[SpaceParticipant] Successfully unmuted self.');
   }
+
+  /**
+   * Looks ourselves up among the Space's co-hosts and emits "cohostChanged" if that changed.
+   */
+  private async checkCohost() {
+    if (!this.twitterUserId) return;
+
+    try {
+      const audioSpace = await this.scraper.getAudioSpaceById(this.spaceId);
+      const isCohost = getCohosts(audioSpace).some(
+        (cohost) => cohost.userId === this.twitterUserId,
+      );
+      if (isCohost === this.cohost) return;
+
+      this.cohost = isCohost;
+      this.logger.info(`[SpaceParticipant] co-host => ${isCohost}`);
+      this.emit('cohostChanged', { isCohost });
+    } catch (err) {
+      this.logger.warn('[SpaceParticipant] co-host check failed =>', err);
+    }
+  }
+
+  /**
+   * Mute another speaker. Requires being co-host.
+   */
+  public async muteSpeaker(userId: string): Promise<void> {
+    const { authToken, chatToken, sessionUUID } = this.requireCohost(
+      'mute a speaker',
+      userId,
+    );
+
+    await muteSpeaker({
+      broadcastId: this.spaceId,
+      sessionUUID,
+      chatToken,
+      authToken,
+    });
+    this.logger.info(`[SpaceParticipant] Muted speaker => userId=${userId}`);
+  }
+
+  /**
+   * Unmute another speaker. Requires being co-host.
+   */
+  public async unmuteSpeaker(userId: string): Promise<void> {
+    const { authToken, chatToken, sessionUUID } = this.requireCohost(
+      'unmute a speaker',
+      userId,
+    );
+
+    await unmuteSpeaker({
+      broadcastId: this.spaceId,
+      sessionUUID,
+      chatToken,
+      authToken,
+    });
+    this.logger.info(`[SpaceParticipant] Unmuted speaker => userId=${userId}`);
+  }
+
+  /**
+   * Remove another speaker from the stage. Requires being co-host.
+   */
+  public async removeSpeaker(userId: string): Promise<void> {
+    const { authToken, chatToken, sessionUUID } = this.requireCohost(
+      'remove a speaker',
+      userId,
+    );
+
+    await ejectSpeaker({
+      broadcastId: this.spaceId,
+      sessionUUID,
+      chatToken,
+      authToken,
+    });
+    this.speakerSessions.delete(userId);
+    this.emit('speakerRemoved', { userId });
+    this.logger.info(`[SpaceParticipant] Removed speaker => userId=${userId}`);
+  }
+
+  /**
+   * Throws unless we are a co-host and know the speaker's session,
+   * and returns what every co-host action needs.
+   */
+  private requireCohost(operation: string, userId: string) {
+    this.assertState(operation, 'listener', 'requested', 'speaker');
+    if (!this.cohost) {
+      throw new Error(
+        `[SpaceParticipant] Cannot ${operation}: not a co-host of this Space`,
+      );
+    }
+    if (!this.authToken || !this.chatToken) {
+      throw new Error('[SpaceParticipant] Missing authToken or chatToken.');
+    }
+
+    const sessionUUID = this.speakerSessions.get(userId);
+    if (!sessionUUID) {
+      throw new Error(
+        `[SpaceParticipant] Cannot ${operation}: no session known for userId=${userId}. ` +
+          'Only speakers accepted after joining the Space can be managed.',
+      );
+    }
+
+    return {
+      authToken: this.authToken,
+      chatToken: this.chatToken,
+      sessionUUID,
+    };
+  }
 }
@@ -0,0 +1,76 @@
+import { Utterance, VoiceActivityDetector } from './VoiceActivityDetector';
+
+const SAMPLE_RATE = 16_000;
+const FRAME = SAMPLE_RATE / 100;
+
+function tone(ms: number): Int16Array[] {
+  return Array.from({ length: ms / 10 }, () =>
+    Int16Array.from({ length: FRAME }, (_, i) =>
+      Math.round(8000 * Math.sin(i / 5)),
+    ),
+  );
+}
+
+function silence(ms: number): Int16Array[] {
+  return Array.from({ length: ms / 10 }, () => new Int16Array(FRAME));
+}
+
+function run(frames: Int16Array[]) {
+  const vad = new VoiceActivityDetector();
+  const starts: string[] = [];
+  const utterances: Utterance[] = [];
+  vad.on('utteranceStart', (evt) => starts.push(evt.userId));
+  vad.on('utteranceEnd', (utterance) => utterances.push(utterance));
+
+  for (const frame of frames) {
+    vad.process('user', frame, SAMPLE_RATE);
+  }
+  return { vad, starts, utterances };
+}
+
+test('a click does not start an utterance', () => {
+  const { starts, utterances } = run([...tone(10), ...silence(1000)]);
+
+  expect(starts).toEqual([]);
+  expect(utterances).toEqual([]);
+});
+
+test('short pauses stay inside one utterance that ends after the end-of-turn silence', () => {
+  const { starts, utterances } = run([
+    ...silence(100),
+    ...tone(500),
+    ...silence(100),
+    ...tone(500),
+    ...silence(1000),
+  ]);
+
+  expect(starts).toEqual(['user']);
+  expect(utterances).toHaveLength(1);
+  expect(utterances[0].reason).toEqual('endOfTurn');
+  // Speech plus the pause, the hangover and the end-of-turn silence
+  expect(utterances[0].durationMs).toBeGreaterThan(1100 + 800);
+  expect(utterances[0].durationMs).toBeLessThanOrEqual(1100 + 200 + 800);
+  expect(utterances[0].samples.length).toEqual(
+    (utterances[0].durationMs / 1000) * SAMPLE_RATE,
+  );
+});
+
+test('utterances with little speech are reported as too short', () => {
+  const { utterances } = run([...tone(100), ...silence(1200)]);
+
+  expect(utterances.map((u) => u.reason)).toEqual(['tooShort']);
+});
+
+test('speech is measured without hangover', () => {
+  const { vad } = run([...tone(250), ...silence(150)]);
+
+  expect(vad.isSpeaking('user')).toBeTruthy();
+  expect(vad.getSpeechMs('user')).toBeCloseTo(250);
+});
+
+test('long utterances are cut at the maximum length', () => {
+  const { utterances } = run(tone(16_000));
+
+  expect(utterances.map((u) => u.reason)).toEqual(['maxLength']);
+  expect(utterances[0].durationMs).toBeCloseTo(15_000);
+});
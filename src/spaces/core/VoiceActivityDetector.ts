@@ -0,0 +1,325 @@
+// src/core/VoiceActivityDetector.ts
+
+import { TypedEventEmitter } from '../events';
+
+export interface VadOptions {
+  /**
+   * How far (in dB) above the tracked noise floor a frame must be to count as speech. (Default: 10)
+   */
+  energyMarginDb?: number;
+
+  /**
+   * Frames quieter than this (in dBFS) are never speech. (Default: -50)
+   */
+  minEnergyDb?: number;
+
+  /**
+   * Frames crossing zero more often than this (crossings per sample) are treated as hiss
+   * unless they are much louder than the noise floor. (Default: 0.35)
+   */
+  maxZeroCrossingRate?: number;
+
+  /**
+   * How much consecutive speech (in ms) starts an utterance, so clicks don't. (Default: 30ms)
+   */
+  onsetMs?: number;
+
+  /**
+   * How long (in ms) frames keep counting as speech after the signal drops. (Default: 200ms)
+   */
+  hangoverMs?: number;
+
+  /**
+   * How much silence (in ms) ends the speaker's turn. (Default: 800ms)
+   */
+  endOfTurnSilenceMs?: number;
+
+  /**
+   * Utterances with less speech than this (in ms) are reported as "tooShort". (Default: 300ms)
+   */
+  minUtteranceMs?: number;
+
+  /**
+   * Utterances are cut at this length (in ms), even mid-sentence. (Default: 15s)
+   */
+  maxUtteranceMs?: number;
+}
+
+/**
+ * Payload of the "utteranceStart" event.
+ */
+export interface UtteranceStart {
+  userId: string;
+  startedAt: Date;
+}
+
+/**
+ * Why an utterance ended:
+ *  - endOfTurn: the speaker went quiet for endOfTurnSilenceMs
+ *  - maxLength: the utterance reached maxUtteranceMs
+ *  - flushed: flush() was called, e.g. because the speaker muted
+ *  - tooShort: it ended with less speech than minUtteranceMs and should usually be ignored
+ */
+export type UtteranceEndReason =
+  | 'endOfTurn'
+  | 'maxLength'
+  | 'flushed'
+  | 'tooShort';
+
+/**
+ * Payload of the "utteranceEnd" event: the whole utterance as 16-bit mono PCM.
+ */
+export interface Utterance {
+  userId: string;
+  samples: Int16Array;
+  sampleRate: number;
+  startedAt: Date;
+  durationMs: number;
+  reason: UtteranceEndReason;
+}
+
+export interface VadEvents {
+  utteranceStart: (evt: UtteranceStart) => void;
+  utteranceEnd: (utterance: Utterance) => void;
+}
+
+interface SpeakerStream {
+  sampleRate: number;
+  noiseFloorDb: number;
+
+  /**
+   * Time (ms of audio) since the last frame that was speech before hangover
+   */
+  sinceSpeechMs: number;
+
+  // Before the utterance starts
+  onsetMs: number;
+  onsetChunks: Int16Array[];
+
+  // During the utterance
+  speaking: boolean;
+  chunks: Int16Array[];
+  startedAt: number;
+  durationMs: number;
+  speechMs: number;
+  silenceMs: number;
+}
+
+/**
+ * Segments each speaker's audio into utterances.
+ *
+ * Every incoming frame is classified from its energy, relative to a noise floor tracked per
+ * speaker, and its zero-crossing rate. A hangover keeps short dips inside words from counting
+ * as silence. An utterance starts after onsetMs of speech and ends after endOfTurnSilenceMs
+ * of silence or at maxUtteranceMs.
+ */
+export class VoiceActivityDetector extends TypedEventEmitter<VadEvents> {
+  private readonly energyMarginDb: number;
+  private readonly minEnergyDb: number;
+  private readonly maxZeroCrossingRate: number;
+  private readonly onsetMs: number;
+  private readonly hangoverMs: number;
+  private readonly endOfTurnSilenceMs: number;
+  private readonly minUtteranceMs: number;
+  private readonly maxUtteranceMs: number;
+
+  private streams = new Map<string, SpeakerStream>();
+
+  constructor(options?: VadOptions) {
+    super();
+    this.energyMarginDb = options?.energyMarginDb ?? 10;
+    this.minEnergyDb = options?.minEnergyDb ?? -50;
+    this.maxZeroCrossingRate = options?.maxZeroCrossingRate ?? 0.35;
+    this.onsetMs = options?.onsetMs ?? 30;
+    this.hangoverMs = options?.hangoverMs ?? 200;
+    this.endOfTurnSilenceMs = options?.endOfTurnSilenceMs ?? 800;
+    this.minUtteranceMs = options?.minUtteranceMs ?? 300;
+    this.maxUtteranceMs = options?.maxUtteranceMs ?? 15_000;
+  }
+
+  /**
+   * Feeds one frame of a speaker's 16-bit mono PCM.
+   */
+  public process(userId: string, samples: Int16Array, sampleRate: number) {
+    if (samples.length === 0) return;
+
+    const stream = this.getStream(userId, sampleRate);
+    const frameMs = (samples.length / sampleRate) * 1000;
+    const isSpeech = this.classify(stream, samples, frameMs);
+
+    // The onset needs actual speech; hangover only applies once the utterance has started,
+    // otherwise a single click would be stretched into a whole onset
+    if (!stream.speaking) {
+      if (!isSpeech) {
+        stream.onsetMs = 0;
+        stream.onsetChunks = [];
+        return;
+      }
+
+      stream.onsetChunks.push(samples);
+      stream.onsetMs += frameMs;
+      if (stream.onsetMs >= this.onsetMs) {
+        this.startUtterance(userId, stream);
+      }
+      return;
+    }
+
+    stream.chunks.push(samples);
+    stream.durationMs += frameMs;
+    if (isSpeech) stream.speechMs += frameMs;
+    if (isSpeech || stream.sinceSpeechMs < this.hangoverMs) {
+      stream.silenceMs = 0;
+    } else {
+      stream.silenceMs += frameMs;
+    }
+
+    if (stream.durationMs >= this.maxUtteranceMs) {
+      this.endUtterance(userId, stream, 'maxLength');
+    } else if (stream.silenceMs >= this.endOfTurnSilenceMs) {
+      this.endUtterance(userId, stream, 'endOfTurn');
+    }
+  }
+
+  /**
+   * Whether the speaker is currently inside an utterance.
+   */
+  public isSpeaking(userId: string): boolean {
+    return this.streams.get(userId)?.speaking ?? false;
+  }
+
+  /**
+   * How much actual speech (in ms, without hangover) the speaker's current utterance contains so far.
+   */
+  public getSpeechMs(userId: string): number {
+    const stream = this.streams.get(userId);
+    return stream?.speaking ? stream.speechMs : 0;
+  }
+
+  /**
+   * Ends the speaker's current utterance right away, if any.
+   */
+  public flush(userId: string) {
+    const stream = this.streams.get(userId);
+    if (stream?.speaking) {
+      this.endUtterance(userId, stream, 'flushed');
+    }
+  }
+
+  /**
+   * Forgets a speaker (or every speaker), dropping any utterance in progress without emitting it.
+   */
+  public reset(userId?: string) {
+    if (userId) {
+      this.streams.delete(userId);
+    } else {
+      this.streams.clear();
+    }
+  }
+
+  /**
+   * Decides whether a frame is speech and updates the noise floor and time since the last speech.
+   */
+  private classify(
+    stream: SpeakerStream,
+    samples: Int16Array,
+    frameMs: number,
+  ): boolean {
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sumSquares += samples[i] * samples[i];
+      if (i > 0 && samples[i] >= 0 !== samples[i - 1] >= 0) crossings++;
+    }
+    const rms = Math.sqrt(sumSquares / samples.length);
+    const energyDb = 20 * Math.log10(rms / 32768 + 1e-10);
+    const zeroCrossingRate = crossings / samples.length;
+
+    const threshold = Math.max(
+      this.minEnergyDb,
+      stream.noiseFloorDb + this.energyMarginDb,
+    );
+    const loud = energyDb > threshold + this.energyMarginDb;
+    const isSpeech =
+      energyDb > threshold &&
+      (zeroCrossingRate <= this.maxZeroCrossingRate || loud);
+
+    stream.sinceSpeechMs = isSpeech ? 0 : stream.sinceSpeechMs + frameMs;
+
+    // Follow the background level: quickly downwards, slowly upwards, and very slowly
+    // during speech so steady noise that started out above the threshold is learned eventually
+    const rate =
+      energyDb < stream.noiseFloorDb ? 0.2 : isSpeech ? 0.0005 : 0.02;
+    stream.noiseFloorDb += (energyDb - stream.noiseFloorDb) * rate;
+
+    return isSpeech;
+  }
+
+  private startUtterance(userId: string, stream: SpeakerStream) {
+    stream.speaking = true;
+    stream.chunks = stream.onsetChunks;
+    stream.durationMs = stream.onsetMs;
+    stream.speechMs = stream.onsetMs;
+    stream.silenceMs = 0;
+    stream.startedAt = Date.now() - stream.onsetMs;
+    stream.onsetChunks = [];
+    stream.onsetMs = 0;
+
+    this.emit('utteranceStart', {
+      userId,
+      startedAt: new Date(stream.startedAt),
+    });
+  }
+
+  private endUtterance(
+    userId: string,
+    stream: SpeakerStream,
+    reason: UtteranceEndReason,
+  ) {
+    const totalLength = stream.chunks.reduce((acc, c) => acc + c.length, 0);
+    const samples = new Int16Array(totalLength);
+    let offset = 0;
+    for (const chunk of stream.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const utterance: Utterance = {
+      userId,
+      samples,
+      sampleRate: stream.sampleRate,
+      startedAt: new Date(stream.startedAt),
+      durationMs: stream.durationMs,
+      reason: stream.speechMs < this.minUtteranceMs ? 'tooShort' : reason,
+    };
+
+    stream.speaking = false;
+    stream.chunks = [];
+    stream.durationMs = 0;
+    stream.speechMs = 0;
+    stream.silenceMs = 0;
+
+    this.emit('utteranceEnd', utterance);
+  }
+
+  private getStream(userId: string, sampleRate: number): SpeakerStream {
+    let stream = this.streams.get(userId);
+    if (!stream) {
+      stream = {
+        sampleRate,
+        noiseFloorDb: this.minEnergyDb - this.energyMarginDb,
+        sinceSpeechMs: Infinity,
+        onsetMs: 0,
+        onsetChunks: [],
+        speaking: false,
+        chunks: [],
+        startedAt: 0,
+        durationMs: 0,
+        speechMs: 0,
+        silenceMs: 0,
+      };
+      this.streams.set(userId, stream);
+    }
+    stream.sampleRate = sampleRate;
+    return stream;
+  }
+}
@@ -0,0 +1,181 @@
+// src/events.ts
+
+import { EventEmitter } from 'events';
+import type {
+  AudioDataWithUser,
+  ChatMessage,
+  GuestReaction,
+  OccupancyUpdate,
+  ReconnectedEvent,
+  ReconnectingEvent,
+  SpeakerRequest,
+  Transcription,
+} from './types';
+import type { JanusEvent } from './core/JanusClient';
+import type { ModerationDecision } from './plugins/ModerationPlugin';
+import type { SpeakerQueueState } from './plugins/SpeakerQueuePlugin';
+import type { ResponseLatency, TtsInterrupted } from './plugins/SttTtsPlugin';
+import type { Utterance, UtteranceStart } from './core/VoiceActivityDetector';
+
+/**
+ * A speaker muted or unmuted themselves.
+ */
+export interface MuteStateChange {
+  userId: string;
+  muted: boolean;
+}
+
+/**
+ * The host accepted a speaker request.
+ */
+export interface SpeakerAccepted {
+  userId: string;
+  username: string;
+  sessionUUID: string;
+}
+
+/**
+ * A user joined or left the Space's chat room.
+ */
+export interface UserPresence {
+  userId: string;
+  username?: string;
+  displayName: string;
+}
+
+/**
+ * Lifecycle states of a hosted Space.
+ */
+export type SpaceState = 'idle' | 'creating' | 'live' | 'stopping' | 'ended';
+
+/**
+ * Lifecycle states of a participant in someone else's Space.
+ */
+export type ParticipantState =
+  | 'idle'
+  | 'listener'
+  | 'requested'
+  | 'speaker'
+  | 'left';
+
+/**
+ * Payload of the "stateChanged" event.
+ */
+export interface StateChange<S extends string = SpaceState | ParticipantState> {
+  previous: S;
+  state: S;
+}
+
+/**
+ * Every event emitted by Space, SpaceParticipant, ChatClient and JanusClient, keyed by name.
+ * Chat events are re-emitted by Space and SpaceParticipant, and plugins emit their own events
+ * through the space they are attached to.
+ */
+export interface SpaceEvents {
+  // Chat
+  speakerRequest: (req: SpeakerRequest) => void;
+  occupancyUpdate: (update: OccupancyUpdate) => void;
+  muteStateChanged: (evt: MuteStateChange) => void;
+  newSpeakerAccepted: (evt: SpeakerAccepted) => void;
+  guestReaction: (reaction: GuestReaction) => void;
+  chatMessage: (message: ChatMessage) => void;
+  userJoined: (user: UserPresence) => void;
+  userLeft: (user: UserPresence) => void;
+  disconnected: () => void;
+
+  // Connection recovery
+  reconnecting: (evt: ReconnectingEvent) => void;
+  reconnected: (evt: ReconnectedEvent) => void;
+  reconnectFailed: (err: unknown) => void;
+
+  // Janus
+  janus: (evt: JanusEvent) => void;
+  audioDataFromSpeaker: (data: AudioDataWithUser) => void;
+  subscribedSpeaker: (evt: { userId: string; feedId: number }) => void;
+  publishersUpdated: (publishers: { id: number; display: string }[]) => void;
+  hangup: (data: { reason?: string }) => void;
+  connectionLost: () => void;
+  warning: (err: Error) => void;
+  error: (err: Error) => void;
+
+  // Lifecycle
+  stateChanged: (evt: StateChange) => void;
+  speakerRemoved: (evt: { userId: string }) => void;
+  cohostChanged: (evt: { isCohost: boolean }) => void;
+  beforeStop: () => void;
+
+  // Plugins
+  transcription: (transcription: Transcription) => void;
+  utteranceStart: (evt: UtteranceStart) => void;
+  utteranceEnd: (utterance: Utterance) => void;
+  ttsInterrupted: (evt: TtsInterrupted) => void;
+  responseLatency: (latency: ResponseLatency) => void;
+  idleTimeout: (evt: { idleMs: number }) => void;
+  moderationDecision: (decision: ModerationDecision) => void;
+  queueChanged: (state: SpeakerQueueState) => void;
+}
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * An EventEmitter whose event names and listener signatures are checked against an event map.
+ */
+export class TypedEventEmitter<
+  Events extends { [E in keyof Events]: Listener },
+> extends EventEmitter {
+  public on<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.on(event, listener);
+  }
+
+  public once<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.once(event, listener);
+  }
+
+  public off<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.off(event, listener);
+  }
+
+  public addListener<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.addListener(event, listener);
+  }
+
+  public removeListener<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.removeListener(event, listener);
+  }
+
+  public prependListener<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.prependListener(event, listener);
+  }
+
+  public prependOnceListener<E extends keyof Events & string>(
+    event: E,
+    listener: Events[E],
+  ): this {
+    return super.prependOnceListener(event, listener);
+  }
+
+  public emit<E extends keyof Events & string>(
+    event: E,
+    ...args: Parameters<Events[E]>
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+}
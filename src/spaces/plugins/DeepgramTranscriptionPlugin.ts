@@ -224,6 +224,7 @@ export class DeepgramTranscriptionPlugin implements Plugin {
           // Log transcript with username
           const username = this.usernames.get(userId) || userId;
           console.log(`[DeepgramPlugin] ${username}: ${transcript}`);
+          this.space?.emit('transcription', { userId, text: transcript });
         },
       );
 
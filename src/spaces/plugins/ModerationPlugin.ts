@@ -0,0 +1,371 @@
+// src/plugins/ModerationPlugin.ts
+
+import { Plugin, SpeakerRequest, Transcription } from '../types';
+import { Space } from '../core/Space';
+import { Scraper } from '../../scraper';
+import { Logger } from '../logger';
+
+/**
+ * Declarative rules applied to speaker requests and active speakers.
+ * Every rule is optional; an empty policy approves every request.
+ */
+export interface ModerationPolicy {
+  /**
+   * Usernames or user IDs that are always approved, skipping the profile checks.
+   * They still count towards maxSpeakers.
+   */
+  allowList?: string[];
+
+  /**
+   * Usernames or user IDs that are never approved.
+   */
+  denyList?: string[];
+
+  /**
+   * Minimum number of followers a requester must have.
+   */
+  minFollowers?: number;
+
+  /**
+   * Minimum age of the requester's account, in days.
+   */
+  minAccountAgeDays?: number;
+
+  /**
+   * Only approve verified or Blue-verified accounts.
+   */
+  verifiedOnly?: boolean;
+
+  /**
+   * Maximum number of speakers on stage at once, not counting the host.
+   */
+  maxSpeakers?: number;
+
+  /**
+   * How long (in ms) a speaker may stay on stage before being removed.
+   */
+  maxSpeakingTimeMs?: number;
+
+  /**
+   * Keywords that get a speaker removed when they show up in a transcription.
+   * Matched case-insensitively as whole words, which may contain symbols or accents (e.g. "c++", "café").
+   */
+  bannedKeywords?: string[];
+}
+
+/**
+ * Number of most recent decisions kept in the audit log.
+ */
+const MAX_AUDIT_LOG_SIZE = 1000;
+
+/**
+ * Longest wait (in ms) between retries of a failed removal.
+ */
+const MAX_REMOVAL_BACKOFF_MS = 5 * 60_000;
+
+/**
+ * One automated decision, as recorded in the audit log.
+ */
+export interface ModerationDecision {
+  timestamp: Date;
+  action: 'approve' | 'reject' | 'remove';
+  userId: string;
+  username?: string;
+  reason: string;
+}
+
+/**
+ * ModerationPlugin
+ * ----------------
+ * Approves, rejects and removes speakers in a hosted Space according to a {@link ModerationPolicy}.
+ * Every decision is kept in an audit log and emitted as a 'moderationDecision' event on the space.
+ *
+ * Keyword checks rely on 'transcription' events, so pair it with a speech-to-text plugin.
+ */
+export class ModerationPlugin implements Plugin {
+  private space?: Space;
+  private logger?: Logger;
+
+  private auditLog: ModerationDecision[] = [];
+
+  /**
+   * userId => time (ms) the speaker was approved
+   */
+  private speakerSince = new Map<string, number>();
+
+  /**
+   * Speaker requests that are being checked or approved, counted towards maxSpeakers
+   */
+  private pendingApprovals = new Set<string>();
+
+  /**
+   * Removals in progress, and when failed ones may be retried
+   */
+  private removing = new Set<string>();
+  private failedRemovals = new Map<
+    string,
+    { attempts: number; retryAt: number }
+  >();
+
+  private checkInterval?: NodeJS.Timeout;
+
+  /**
+   * @param scraper      Used to look up requester profiles.
+   * @param policy       The rules to enforce.
+   * @param checkEveryMs How frequently (in ms) to check speaking time limits. (Default: 5s)
+   */
+  constructor(
+    private readonly scraper: Scraper,
+    private policy: ModerationPolicy = {},
+    private checkEveryMs: number = 5_000,
+  ) {}
+
+  onAttach(params: { space: Space; pluginConfig?: Record<string, any> }): void {
+    this.space = params.space;
+    const debug = params.pluginConfig?.debug ?? false;
+    this.logger = new Logger(debug);
+
+    this.logger.info('[ModerationPlugin] onAttach => plugin attached');
+  }
+
+  /**
+   * Subscribes to speaker requests and transcriptions, and starts the speaking time checks.
+   */
+  init(params: { space: Space; pluginConfig?: Record<string, any> }): void {
+    this.space = params.space;
+    this.logger?.info('[ModerationPlugin] init => enforcing policy');
+
+    this.space.on('speakerRequest', (req: SpeakerRequest) => {
+      this.handleSpeakerRequest(req).catch((err) => {
+        this.logger?.error('[ModerationPlugin] speakerRequest error =>', err);
+      });
+    });
+
+    this.space.on('transcription', (transcription: Transcription) => {
+      this.handleTranscription(transcription).catch((err) => {
+        this.logger?.error('[ModerationPlugin] transcription error =>', err);
+      });
+    });
+
+    if (this.policy.maxSpeakingTimeMs != null) {
+      this.checkInterval = setInterval(
+        () => this.checkSpeakingTime(),
+        this.checkEveryMs,
+      );
+    }
+  }
+
+  /**
+   * Replaces the policy. Applies to requests and checks from now on.
+   */
+  public setPolicy(policy: ModerationPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Returns the last 1000 automated decisions, oldest first.
+   */
+  public getAuditLog(): ModerationDecision[] {
+    return [...this.auditLog];
+  }
+
+  private async handleSpeakerRequest(req: SpeakerRequest) {
+    if (!this.space || this.pendingApprovals.has(req.userId)) return;
+
+    this.pendingApprovals.add(req.userId);
+    try {
+      const reason = await this.evaluate(req);
+      if (reason) {
+        this.record('reject', req.userId, req.username, reason);
+        return;
+      }
+
+      await this.space.approveSpeaker(req.userId, req.sessionUUID);
+      this.speakerSince.set(req.userId, Date.now());
+      this.record('approve', req.userId, req.username, 'Passed all checks');
+    } finally {
+      this.pendingApprovals.delete(req.userId);
+    }
+  }
+
+  /**
+   * Applies the policy to a speaker request.
+   * @returns Why the request should be rejected, or undefined to approve it.
+   */
+  private async evaluate(req: SpeakerRequest): Promise<string | undefined> {
+    const { allowList, denyList, maxSpeakers } = this.policy;
+
+    if (this.matches(denyList, req)) {
+      return 'On the deny list';
+    }
+
+    // Pending requests other than this one count towards the limit too
+    const speakerCount =
+      (this.space?.getSpeakers().length ?? 0) + this.pendingApprovals.size - 1;
+    if (maxSpeakers != null && speakerCount >= maxSpeakers) {
+      return `Speaker limit of ${maxSpeakers} reached`;
+    }
+
+    if (this.matches(allowList, req)) {
+      return undefined;
+    }
+
+    const { minFollowers, minAccountAgeDays, verifiedOnly } = this.policy;
+    if (minFollowers == null && minAccountAgeDays == null && !verifiedOnly) {
+      return undefined;
+    }
+
+    let profile;
+    try {
+      profile = await this.scraper.getProfile(req.username);
+    } catch (err) {
+      return `Profile lookup failed: ${(err as Error).message}`;
+    }
+
+    if (minFollowers != null && (profile.followersCount ?? 0) < minFollowers) {
+      return `Fewer than ${minFollowers} followers`;
+    }
+
+    if (minAccountAgeDays != null) {
+      const ageDays = profile.joined
+        ? (Date.now() - profile.joined.getTime()) / 86_400_000
+        : 0;
+      if (ageDays < minAccountAgeDays) {
+        return `Account younger than ${minAccountAgeDays} days`;
+      }
+    }
+
+    if (verifiedOnly && !profile.isVerified && !profile.isBlueVerified) {
+      return 'Account is not verified';
+    }
+
+    return undefined;
+  }
+
+  private async handleTranscription({ userId, text }: Transcription) {
+    const keyword = this.policy.bannedKeywords?.find((word) =>
+      new RegExp(
+        `(?<![\\p{L}\\p{N}_])${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`,
+        'iu',
+      ).test(text),
+    );
+    if (!keyword || !this.isSpeaker(userId)) return;
+
+    await this.remove(userId, `Said banned keyword "${keyword}"`);
+  }
+
+  /**
+   * Removes every speaker that has been on stage longer than maxSpeakingTimeMs.
+   */
+  private checkSpeakingTime() {
+    const limit = this.policy.maxSpeakingTimeMs;
+    if (limit == null) return;
+
+    const now = Date.now();
+    for (const [userId, since] of this.speakerSince) {
+      if (!this.isSpeaker(userId)) {
+        // Removed by someone else in the meantime
+        this.speakerSince.delete(userId);
+        this.failedRemovals.delete(userId);
+        continue;
+      }
+
+      const retryAt = this.failedRemovals.get(userId)?.retryAt ?? 0;
+      if (now - since >= limit && now >= retryAt) {
+        this.remove(userId, `Exceeded speaking time of ${limit}ms`).catch(
+          (err) => {
+            this.logger?.error('[ModerationPlugin] remove error =>', err);
+          },
+        );
+      }
+    }
+  }
+
+  /**
+   * Removes a speaker. The speaker is only forgotten once that succeeded; failed
+   * removals are retried by the speaking time checks with exponential backoff.
+   */
+  private async remove(userId: string, reason: string) {
+    if (!this.space || this.removing.has(userId)) return;
+
+    this.removing.add(userId);
+    try {
+      await this.space.removeSpeaker(userId);
+    } catch (err) {
+      const attempts = (this.failedRemovals.get(userId)?.attempts ?? 0) + 1;
+      const backoffMs = Math.min(
+        this.checkEveryMs * 2 ** attempts,
+        MAX_REMOVAL_BACKOFF_MS,
+      );
+      this.failedRemovals.set(userId, {
+        attempts,
+        retryAt: Date.now() + backoffMs,
+      });
+      throw err;
+    } finally {
+      this.removing.delete(userId);
+    }
+
+    this.speakerSince.delete(userId);
+    this.failedRemovals.delete(userId);
+    this.record('remove', userId, undefined, reason);
+  }
+
+  private isSpeaker(userId: string) {
+    return (
+      this.space?.getSpeakers().some((speaker) => speaker.userId === userId) ??
+      false
+    );
+  }
+
+  private matches(list: string[] | undefined, req: SpeakerRequest) {
+    const username = req.username.toLowerCase();
+    return (
+      list?.some(
+        (entry) => entry === req.userId || entry.toLowerCase() === username,
+      ) ?? false
+    );
+  }
+
+  private record(
+    action: ModerationDecision['action'],
+    userId: string,
+    username: string | undefined,
+    reason: string,
+  ) {
+    const decision: ModerationDecision = {
+      timestamp: new Date(),
+      action,
+      userId,
+      username,
+      reason,
+    };
+    this.auditLog.push(decision);
+    if (this.auditLog.length > MAX_AUDIT_LOG_SIZE) {
+      this.auditLog.shift();
+    }
+
+    this.logger?.info(
+      `[ModerationPlugin] ${action} => userId=${userId}, reason=${reason}`,
+    );
+    this.space?.emit('moderationDecision', decision);
+  }
+
+  /**
+   * Stops the speaking time checks when the plugin is removed or space stops.
+   */
+  cleanup(): void {
+    this.logger?.info('[ModerationPlugin] cleanup => stopping checks');
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = undefined;
+    }
+    this.speakerSince.clear();
+    this.pendingApprovals.clear();
+    this.failedRemovals.clear();
+  }
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
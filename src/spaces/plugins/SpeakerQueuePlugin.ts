@@ -0,0 +1,322 @@
+// src/plugins/SpeakerQueuePlugin.ts
+
+import { Plugin, SpeakerRequest } from '../types';
+import { Space } from '../core/Space';
+import { Logger } from '../logger';
+
+/**
+ * A speaker request waiting in the queue.
+ */
+export interface QueuedSpeaker extends SpeakerRequest {
+  requestedAt: Date;
+  priority: number;
+}
+
+export interface SpeakerQueueOptions {
+  /**
+   * Number of speakers on stage at once, not counting the host. (Default: 1)
+   */
+  slots?: number;
+
+  /**
+   * How long (in ms) each speaker keeps their slot while others are waiting.
+   * Speakers are never rotated out if nobody is in the queue. (Default: no rotation)
+   */
+  turnDurationMs?: number;
+
+  /**
+   * 'fifo' serves requests in arrival order; 'priority' serves the highest priority first,
+   * falling back to arrival order for ties. (Default: 'fifo')
+   */
+  order?: 'fifo' | 'priority';
+
+  /**
+   * Computes a request's priority when order is 'priority'. (Default: every request is 0)
+   */
+  getPriority?: (req: SpeakerRequest) => number;
+
+  /**
+   * How frequently (in ms) to check for finished turns. (Default: 1s)
+   */
+  checkEveryMs?: number;
+}
+
+/**
+ * Payload of the 'queueChanged' event.
+ */
+export interface SpeakerQueueState {
+  queue: QueuedSpeaker[];
+  speakers: { userId: string; speakingSince: Date }[];
+}
+
+/**
+ * SpeakerQueuePlugin
+ * ------------------
+ * Queues incoming speaker requests and gives them a fixed number of live slots,
+ * rotating speakers on a timer so everyone gets a turn.
+ * Emits 'queueChanged' on the space with a {@link SpeakerQueueState} whenever the queue or the stage changes.
+ *
+ * It approves speakers itself, so don't combine it with other plugins or handlers that approve requests.
+ */
+export class SpeakerQueuePlugin implements Plugin {
+  private space?: Space;
+  private logger?: Logger;
+
+  private readonly slots: number;
+  private readonly turnDurationMs?: number;
+  private readonly order: 'fifo' | 'priority';
+  private readonly getPriority: (req: SpeakerRequest) => number;
+  private readonly checkEveryMs: number;
+
+  private queue: QueuedSpeaker[] = [];
+
+  /**
+   * userId => time (ms) the speaker's turn started
+   */
+  private liveSpeakers = new Map<string, number>();
+
+  /**
+   * Serializes approvals and removals so slots are never overfilled
+   */
+  private pending: Promise<void> = Promise.resolve();
+
+  private checkInterval?: NodeJS.Timeout;
+
+  constructor(options?: SpeakerQueueOptions) {
+    this.slots = options?.slots ?? 1;
+    this.turnDurationMs = options?.turnDurationMs;
+    this.order = options?.order ?? 'fifo';
+    this.getPriority = options?.getPriority ?? (() => 0);
+    this.checkEveryMs = options?.checkEveryMs ?? 1_000;
+  }
+
+  onAttach(params: { space: Space; pluginConfig?: Record<string, any> }): void {
+    this.space = params.space;
+    const debug = params.pluginConfig?.debug ?? false;
+    this.logger = new Logger(debug);
+
+    this.logger.info('[SpeakerQueuePlugin] onAttach => plugin attached');
+  }
+
+  /**
+   * Starts queueing speaker requests and checking for finished turns.
+   */
+  init(params: { space: Space; pluginConfig?: Record<string, any> }): void {
+    this.space = params.space;
+    this.logger?.info('[SpeakerQueuePlugin] init => queueing speaker requests');
+
+    this.space.on('speakerRequest', (req: SpeakerRequest) => {
+      this.enqueue(req);
+    });
+
+    this.checkInterval = setInterval(() => this.rotate(), this.checkEveryMs);
+  }
+
+  /**
+   * Returns the pending requests in the order they will be served.
+   */
+  public getQueue(): QueuedSpeaker[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Brings a queued user on stage right away. If every slot is taken, the speaker
+   * whose turn started first is removed to make room. If that fails, the user keeps
+   * their place in the queue and an error is thrown.
+   */
+  public async promote(userId: string): Promise<void> {
+    const index = this.queue.findIndex((entry) => entry.userId === userId);
+    if (index === -1) {
+      throw new Error(`[SpeakerQueuePlugin] ${userId} is not in the queue`);
+    }
+
+    const [entry] = this.queue.splice(index, 1);
+    let madeRoom = true;
+    await this.serialize(async () => {
+      this.pruneLiveSpeakers();
+      if (this.liveSpeakers.size >= this.slots) {
+        madeRoom = await this.endTurn(this.longestSpeaker() as string);
+      }
+      if (madeRoom) {
+        await this.startTurn(entry);
+      } else {
+        this.queue.splice(index, 0, entry);
+        this.emitQueueChanged();
+      }
+    });
+
+    if (!madeRoom) {
+      throw new Error(
+        `[SpeakerQueuePlugin] Could not make room on stage for ${userId}`,
+      );
+    }
+  }
+
+  /**
+   * Drops a user's request from the queue without bringing them on stage.
+   */
+  public skip(userId: string): void {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((entry) => entry.userId !== userId);
+    if (this.queue.length !== before) {
+      this.logger?.info(`[SpeakerQueuePlugin] skip => userId=${userId}`);
+      this.emitQueueChanged();
+    }
+  }
+
+  private enqueue(req: SpeakerRequest) {
+    if (this.liveSpeakers.has(req.userId)) return;
+
+    const existing = this.queue.find((entry) => entry.userId === req.userId);
+    if (existing) {
+      // A repeated request keeps its place but refreshes the session
+      existing.sessionUUID = req.sessionUUID;
+    } else {
+      this.queue.push({
+        ...req,
+        requestedAt: new Date(),
+        priority: this.order === 'priority' ? this.getPriority(req) : 0,
+      });
+      this.sortQueue();
+      this.logger?.info(
+        `[SpeakerQueuePlugin] enqueue => userId=${req.userId}, position=${this.queue.length}`,
+      );
+    }
+
+    this.emitQueueChanged();
+    this.fillSlots();
+  }
+
+  /**
+   * Ends the turns that have run out while someone is waiting, then fills free slots.
+   */
+  private rotate() {
+    this.serialize(async () => {
+      this.pruneLiveSpeakers();
+      if (this.turnDurationMs == null) return;
+
+      // The queue only shrinks once fillSlots runs, so count the slots freed for it here
+      const now = Date.now();
+      let waiting = this.queue.length;
+      for (const [userId, since] of [...this.liveSpeakers]) {
+        if (waiting === 0) break;
+        if (
+          now - since >= this.turnDurationMs &&
+          (await this.endTurn(userId))
+        ) {
+          waiting--;
+        }
+      }
+    }).then(() => this.fillSlots());
+  }
+
+  private fillSlots() {
+    this.serialize(async () => {
+      this.pruneLiveSpeakers();
+      while (this.liveSpeakers.size < this.slots && this.queue.length > 0) {
+        await this.startTurn(this.queue.shift() as QueuedSpeaker);
+      }
+    });
+  }
+
+  private async startTurn(entry: QueuedSpeaker) {
+    if (!this.space) return;
+
+    try {
+      await this.space.approveSpeaker(entry.userId, entry.sessionUUID);
+      this.liveSpeakers.set(entry.userId, Date.now());
+      this.logger?.info(
+        `[SpeakerQueuePlugin] turn started => userId=${entry.userId}`,
+      );
+    } catch (err) {
+      this.logger?.error('[SpeakerQueuePlugin] approveSpeaker error =>', err);
+    }
+    this.emitQueueChanged();
+  }
+
+  /**
+   * Removes a speaker from the stage. They are only forgotten once that succeeded,
+   * so a failed removal still counts as a taken slot and is retried on the next check.
+   * @returns Whether the speaker was removed.
+   */
+  private async endTurn(userId: string): Promise<boolean> {
+    if (!this.space) return false;
+
+    try {
+      await this.space.removeSpeaker(userId);
+    } catch (err) {
+      this.logger?.error('[SpeakerQueuePlugin] removeSpeaker error =>', err);
+      return false;
+    }
+
+    this.liveSpeakers.delete(userId);
+    this.logger?.info(`[SpeakerQueuePlugin] turn ended => userId=${userId}`);
+    this.emitQueueChanged();
+    return true;
+  }
+
+  /**
+   * Forgets speakers that left the stage some other way (e.g. removed by the host).
+   */
+  private pruneLiveSpeakers() {
+    const onStage = new Set(
+      this.space?.getSpeakers().map((speaker) => speaker.userId),
+    );
+    let changed = false;
+    for (const userId of this.liveSpeakers.keys()) {
+      if (!onStage.has(userId)) {
+        this.liveSpeakers.delete(userId);
+        changed = true;
+      }
+    }
+    if (changed) this.emitQueueChanged();
+  }
+
+  private longestSpeaker(): string | undefined {
+    let oldest: [string, number] | undefined;
+    for (const entry of this.liveSpeakers) {
+      if (!oldest || entry[1] < oldest[1]) oldest = entry;
+    }
+    return oldest?.[0];
+  }
+
+  private sortQueue() {
+    if (this.order !== 'priority') return;
+    this.queue.sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        a.requestedAt.getTime() - b.requestedAt.getTime(),
+    );
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    this.pending = this.pending.then(task).catch((err) => {
+      this.logger?.error('[SpeakerQueuePlugin] error =>', err);
+    });
+    return this.pending;
+  }
+
+  private emitQueueChanged() {
+    const state: SpeakerQueueState = {
+      queue: this.getQueue(),
+      speakers: [...this.liveSpeakers].map(([userId, since]) => ({
+        userId,
+        speakingSince: new Date(since),
+      })),
+    };
+    this.space?.emit('queueChanged', state);
+  }
+
+  /**
+   * Stops rotating speakers when the plugin is removed or space stops.
+   */
+  cleanup(): void {
+    this.logger?.info('[SpeakerQueuePlugin] cleanup => stopping rotation');
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = undefined;
+    }
+    this.queue = [];
+    this.liveSpeakers.clear();
+  }
+}
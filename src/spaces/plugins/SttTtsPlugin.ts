@@ -1,38 +1,194 @@
 // src/plugins/SttTtsPlugin.ts
 
-import fs from 'fs';
-import path from 'path';
-import { spawn } from 'child_process';
 import { AudioDataWithUser, Plugin } from '../types';
 import { Space } from '../core/Space';
 import { SpaceParticipant } from '../core/SpaceParticipant';
 import { JanusClient } from '../core/JanusClient';
+import { AudioMixer } from '../core/AudioMixer';
+import { ConversationMemory, MemoryTurn } from '../core/ConversationMemory';
+import {
+  Utterance,
+  VadOptions,
+  VoiceActivityDetector,
+} from '../core/VoiceActivityDetector';
 import { Logger } from '../logger';
+import {
+  ChatModelProvider,
+  ChatTurn,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+} from '../providers/types';
+import { OpenAISpeechToText } from '../providers/OpenAISpeechToText';
+import { OpenAIChatModel } from '../providers/OpenAIChatModel';
+import { ElevenLabsTextToSpeech } from '../providers/ElevenLabsTextToSpeech';
+import { takeSentences } from '../providers/stream';
 
 interface PluginConfig {
-  openAiApiKey?: string; // for STT & ChatGPT
-  elevenLabsApiKey?: string; // for TTS
+  speechToText?: SpeechToTextProvider; // defaults to OpenAI Whisper
+  chatModel?: ChatModelProvider; // defaults to ChatGPT
+  textToSpeech?: TextToSpeechProvider; // defaults to ElevenLabs
+  openAiApiKey?: string; // for the default STT & ChatGPT
+  elevenLabsApiKey?: string; // for the default TTS
   sttLanguage?: string; // e.g., "en" for Whisper
   gptModel?: string; // e.g., "gpt-3.5-turbo" or "gpt-4"
-  silenceThreshold?: number; // amplitude threshold for ignoring silence
+  silenceThreshold?: number; // peak amplitude below which audio is silence; prefer vad.minEnergyDb
+  vad?: VadOptions; // utterance segmentation and end-of-turn detection
   voiceId?: string; // specify which ElevenLabs voice to use
   elevenLabsModel?: string; // e.g., "eleven_monolingual_v1"
   systemPrompt?: string; // e.g., "You are a helpful AI assistant"
   chatContext?: Array<{
     role: 'system' | 'user' | 'assistant';
     content: string;
-  }>;
+  }>; // initial conversation, added to the memory
+  memory?: ConversationMemory; // defaults to a memory summarized by the chat model
+  mixer?: AudioMixer; // play TTS through a shared mixer (started if needed) instead of pushing to Janus
+  bargeIn?: BargeInOptions; // stop speaking when someone talks over the reply
   debug?: boolean;
 }
 
+export interface BargeInOptions {
+  /**
+   * Whether speakers can interrupt TTS playback by talking. (Default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * How much speech (in ms) someone's current utterance must contain before the reply is cut,
+   * so coughs and short acknowledgements don't stop it. (Default: 300ms)
+   */
+  minSpeechMs?: number;
+
+  /**
+   * What to do with replies still queued behind the interrupted one: 'drop' discards them,
+   * 'keep' plays them once the current one has been cut. (Default: 'drop')
+   */
+  queuePolicy?: 'drop' | 'keep';
+}
+
+/**
+ * Payload of the "ttsInterrupted" event.
+ */
+export interface TtsInterrupted {
+  /**
+   * The speaker who talked over the reply
+   */
+  userId: string;
+
+  /**
+   * The sentence being spoken, and the part of it that was played before the cut
+   */
+  text: string;
+  heardText: string;
+  playedMs: number;
+  durationMs: number;
+
+  /**
+   * Queued replies discarded because of the 'drop' queue policy
+   */
+  droppedQueue: string[];
+}
+
+/**
+ * Payload of the "responseLatency" event: how long each stage of a spoken reply took, in ms.
+ */
+export interface ResponseLatency {
+  userId: string;
+
+  /**
+   * End of the speaker's turn => transcript
+   */
+  sttMs: number;
+
+  /**
+   * Transcript => first token from the chat model
+   */
+  firstTokenMs: number;
+
+  /**
+   * Transcript => first complete sentence
+   */
+  firstSentenceMs: number;
+
+  /**
+   * First sentence => its first chunk of synthesized audio
+   */
+  ttsFirstChunkMs: number;
+
+  /**
+   * End of the speaker's turn => first audio pushed, i.e. the dead air listeners heard
+   */
+  firstAudioMs: number;
+}
+
+/**
+ * Timestamps (ms) collected while a reply is produced, turned into a ResponseLatency
+ */
+interface ReplyTiming {
+  userId: string;
+  utteranceEndedAt: number;
+  transcriptAt: number;
+  firstTokenAt?: number;
+}
+
+/**
+ * A reply spoken as one or more queued sentences
+ */
+interface SpokenReply {
+  /**
+   * The assistant turn in memory, if the reply came from the chat model
+   */
+  message?: MemoryTurn;
+
+  /**
+   * Sentences that were played to the end
+   */
+  spokenText: string;
+  interrupted: boolean;
+
+  /**
+   * Cleared once the latency has been reported
+   */
+  timing?: ReplyTiming;
+}
+
+interface TtsItem {
+  text: string;
+  reply: SpokenReply;
+  queuedAt: number;
+  audio: Prefetch<Int16Array>;
+}
+
+/**
+ * The sentence currently being played
+ */
+interface Playback {
+  item: TtsItem;
+
+  /**
+   * Audio received so far, and how much of it was played
+   */
+  durationMs: number;
+  playedMs: number;
+
+  /**
+   * Set once the playback must stop, by a barge-in (interruptedBy) or by cleanup()
+   */
+  stopped?: boolean;
+  interruptedBy?: string;
+}
+
 /**
  * SttTtsPlugin
  * ------------
  * Provides an end-to-end flow of:
- *  - Speech-to-Text (OpenAI Whisper)
- *  - ChatGPT conversation
- *  - Text-to-Speech (ElevenLabs)
- *  - Streams TTS audio frames back to Janus
+ *  - Speech-to-Text (OpenAI Whisper by default)
+ *  - Chat model conversation (ChatGPT by default)
+ *  - Text-to-Speech (ElevenLabs by default)
+ *  - Streams the reply sentence by sentence into TTS, and TTS audio frames back to Janus
+ *  - Stops talking when a speaker barges in, keeping only what was heard in the chat context
+ *
+ * Each step can be swapped by passing a provider in the plugin config
+ * (speechToText, chatModel, textToSpeech).
  *
  * Lifecycle:
  *  - onAttach(...) => minimal references
@@ -45,47 +201,55 @@ export class SttTtsPlugin implements Plugin {
   // References to the space/participant and the Janus client
   private spaceOrParticipant?: Space | SpaceParticipant;
   private janus?: JanusClient;
+  private mixer?: AudioMixer;
 
   // Optional logger retrieved from the space or participant
   private logger?: Logger;
 
-  // Credentials & config
-  private openAiApiKey?: string;
-  private elevenLabsApiKey?: string;
-  private sttLanguage: string = 'en';
-  private gptModel: string = 'gpt-3.5-turbo';
-  private voiceId: string = '21m00Tcm4TlvDq8ikWAM';
-  private elevenLabsModel: string = 'eleven_monolingual_v1';
+  // Providers
+  private speechToText?: SpeechToTextProvider;
+  private chatModel?: ChatModelProvider;
+  private textToSpeech?: TextToSpeechProvider;
+
+  // Config
   private systemPrompt: string = 'You are a helpful AI assistant.';
-  private silenceThreshold: number = 50;
 
   /**
-   * chatContext accumulates the conversation for GPT:
-   *  - system: persona instructions
-   *  - user/assistant: running conversation
+   * memory accumulates the conversation for the chat model, tagging each user turn
+   * with the speaker's username and summarizing older turns to stay within budget
    */
-  private chatContext: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }> = [];
+  private memory = new ConversationMemory();
 
   /**
-   * Maps each userId => array of Int16Array PCM chunks
-   * Only accumulates data if the speaker is unmuted
+   * userId => username of accepted speakers, for participants who can't see Space.getSpeakers()
    */
-  private pcmBuffers = new Map<string, Int16Array[]>();
+  private speakerUsernames = new Map<string, string>();
 
   /**
-   * Tracks which speakers are currently unmuted:
-   * userId => true/false
+   * Splits each speaker's audio into utterances, which are then transcribed
    */
-  private speakerUnmuted = new Map<string, boolean>();
+  private vad?: VoiceActivityDetector;
 
   /**
    * TTS queue for sequential playback
    */
-  private ttsQueue: string[] = [];
+  private ttsQueue: TtsItem[] = [];
   private isSpeaking: boolean = false;
+  private playback?: Playback;
+
+  /**
+   * Settles once the reply being generated, if any, is complete
+   */
+  private replyChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Barge-in settings
+   */
+  private bargeIn: Required<BargeInOptions> = {
+    enabled: true,
+    minSpeechMs: 300,
+    queuePolicy: 'drop',
+  };
 
   /**
    * Called immediately after `.use(plugin)`.
@@ -123,39 +287,90 @@ export class SttTtsPlugin implements Plugin {
     // but typically we rely on "onJanusReady" for that.
     this.janus = (this.spaceOrParticipant as any).janusClient;
 
-    // Merge plugin configuration
-    this.openAiApiKey = config?.openAiApiKey;
-    this.elevenLabsApiKey = config?.elevenLabsApiKey;
-    if (config?.sttLanguage) this.sttLanguage = config.sttLanguage;
-    if (config?.gptModel) this.gptModel = config.gptModel;
-    if (typeof config?.silenceThreshold === 'number') {
-      this.silenceThreshold = config.silenceThreshold;
-    }
-    if (config?.voiceId) this.voiceId = config.voiceId;
-    if (config?.elevenLabsModel) this.elevenLabsModel = config.elevenLabsModel;
+    // Merge plugin configuration, falling back to the built-in vendors
+    const openAiApiKey = config?.openAiApiKey;
+    const elevenLabsApiKey = config?.elevenLabsApiKey;
+    this.speechToText =
+      config?.speechToText ??
+      (openAiApiKey
+        ? new OpenAISpeechToText({
+            apiKey: openAiApiKey,
+            language: config?.sttLanguage,
+          })
+        : undefined);
+    this.chatModel =
+      config?.chatModel ??
+      (openAiApiKey
+        ? new OpenAIChatModel({ apiKey: openAiApiKey, model: config?.gptModel })
+        : undefined);
+    this.textToSpeech =
+      config?.textToSpeech ??
+      (elevenLabsApiKey
+        ? new ElevenLabsTextToSpeech({
+            apiKey: elevenLabsApiKey,
+            voiceId: config?.voiceId,
+            model: config?.elevenLabsModel,
+          })
+        : undefined);
     if (config?.systemPrompt) this.systemPrompt = config.systemPrompt;
-    if (config?.chatContext) {
-      this.chatContext = config.chatContext;
+    this.memory =
+      config?.memory ?? new ConversationMemory({ summarizer: this.chatModel });
+    for (const turn of config?.chatContext ?? []) {
+      this.memory.add(turn.role, turn.content);
+    }
+    if (config?.mixer) {
+      this.mixer = config.mixer;
+      if (!this.mixer.hasSource('tts')) {
+        this.mixer.addSource('tts', { ducksOthers: true });
+      }
     }
 
+    this.bargeIn = { ...this.bargeIn, ...config?.bargeIn };
+
     this.logger?.debug('[SttTtsPlugin] Merged config =>', config);
 
-    // Example: watch for "muteStateChanged" events from the space or participant
+    // The legacy peak threshold becomes the VAD's energy floor
+    const vadOptions: VadOptions = { ...config?.vad };
+    if (
+      typeof config?.silenceThreshold === 'number' &&
+      vadOptions.minEnergyDb == null
+    ) {
+      vadOptions.minEnergyDb = 20 * Math.log10(config.silenceThreshold / 32768);
+    }
+
+    this.vad = new VoiceActivityDetector(vadOptions);
+    this.vad.on('utteranceStart', (evt) => {
+      this.logger?.debug('[SttTtsPlugin] utteranceStart =>', evt.userId);
+      this.spaceOrParticipant?.emit('utteranceStart', evt);
+    });
+    this.vad.on('utteranceEnd', (utterance) => {
+      this.logger?.debug(
+        `[SttTtsPlugin] utteranceEnd => userId=${utterance.userId}, reason=${
+          utterance.reason
+        }, durationMs=${Math.round(utterance.durationMs)}`,
+      );
+      this.spaceOrParticipant?.emit('utteranceEnd', utterance);
+      if (utterance.reason === 'tooShort') return;
+
+      this.handleUtterance(utterance).catch((err) => {
+        this.logger?.error('[SttTtsPlugin] handleUtterance error =>', err);
+      });
+    });
+
+    this.spaceOrParticipant.on(
+      'newSpeakerAccepted',
+      (evt: { userId: string; username: string }) => {
+        this.speakerUsernames.set(evt.userId, evt.username);
+      },
+    );
+
+    // A speaker muting ends their turn right away
     this.spaceOrParticipant.on(
       'muteStateChanged',
       (evt: { userId: string; muted: boolean }) => {
         this.logger?.debug('[SttTtsPlugin] muteStateChanged =>', evt);
         if (evt.muted) {
-          // If the user just muted, flush STT
-          this.handleMute(evt.userId).catch((err) => {
-            this.logger?.error('[SttTtsPlugin] handleMute error =>', err);
-          });
-        } else {
-          // Mark user as unmuted
-          this.speakerUnmuted.set(evt.userId, true);
-          if (!this.pcmBuffers.has(evt.userId)) {
-            this.pcmBuffers.set(evt.userId, []);
-          }
+          this.vad?.flush(evt.userId);
         }
       },
     );
@@ -171,65 +386,49 @@ export class SttTtsPlugin implements Plugin {
       '[SttTtsPlugin] onJanusReady => JanusClient is now available',
     );
     this.janus = janusClient;
+
+    // A mixer that wasn't started yet would hold our replies forever
+    if (this.mixer && !this.mixer.isRunning()) {
+      this.mixer.start(janusClient);
+    }
   }
 
   /**
    * onAudioData: triggered for every incoming PCM frame from a speaker.
-   * We'll accumulate them if that speaker is currently unmuted.
+   * Frames go through voice activity detection, which cuts them into utterances.
+   * While we're speaking, someone talking for long enough interrupts the reply.
    */
   onAudioData(data: AudioDataWithUser): void {
-    const { userId, samples } = data;
-    if (!this.speakerUnmuted.get(userId)) return;
+    this.vad?.process(data.userId, data.samples, data.sampleRate);
 
-    // Basic amplitude check
-    let maxVal = 0;
-    for (let i = 0; i < samples.length; i++) {
-      const val = Math.abs(samples[i]);
-      if (val > maxVal) maxVal = val;
+    if (!this.isSpeaking || !this.bargeIn.enabled) return;
+    const speechMs = this.vad?.getSpeechMs(data.userId) ?? 0;
+    if (speechMs >= this.bargeIn.minSpeechMs) {
+      this.interrupt(data.userId);
     }
-    if (maxVal < this.silenceThreshold) return;
-
-    // Accumulate frames
-    const chunks = this.pcmBuffers.get(userId) ?? [];
-    chunks.push(samples);
-    this.pcmBuffers.set(userId, chunks);
   }
 
   /**
-   * handleMute: called when a speaker goes from unmuted to muted.
-   * We'll flush their collected PCM => STT => GPT => TTS => push to Janus
+   * handleUtterance: called when a speaker finishes an utterance.
+   * We'll run it through STT => chat model => TTS => push to Janus
    */
-  private async handleMute(userId: string): Promise<void> {
-    this.speakerUnmuted.set(userId, false);
-
-    const chunks = this.pcmBuffers.get(userId) || [];
-    this.pcmBuffers.set(userId, []); // reset
-
-    if (!chunks.length) {
-      this.logger?.debug('[SttTtsPlugin] No audio data => userId=', userId);
-      return;
-    }
+  private async handleUtterance(utterance: Utterance): Promise<void> {
+    const { userId, samples, sampleRate } = utterance;
+    const utteranceEndedAt = Date.now();
 
     this.logger?.info(
-      `[SttTtsPlugin] Flushing STT buffer => userId=${userId}, chunkCount=${chunks.length}`,
+      `[SttTtsPlugin] Transcribing utterance => userId=${userId}, durationMs=${Math.round(
+        utterance.durationMs,
+      )}`,
     );
 
-    // Merge into one Int16Array
-    const totalLen = chunks.reduce((acc, c) => acc + c.length, 0);
-    const merged = new Int16Array(totalLen);
-    let offset = 0;
-    for (const c of chunks) {
-      merged.set(c, offset);
-      offset += c.length;
+    // STT
+    if (!this.speechToText) {
+      throw new Error(
+        '[SttTtsPlugin] No speech-to-text provider (set speechToText or openAiApiKey)',
+      );
     }
-
-    // Convert to WAV
-    const wavPath = await this.convertPcmToWav(merged, 48000);
-    this.logger?.debug('[SttTtsPlugin] WAV created =>', wavPath);
-
-    // Whisper STT
-    const sttText = await this.transcribeWithOpenAI(wavPath, this.sttLanguage);
-    fs.unlinkSync(wavPath); // remove temp
+    const sttText = await this.speechToText.transcribe(samples, sampleRate);
 
     if (!sttText.trim()) {
       this.logger?.debug(
@@ -241,22 +440,149 @@ export class SttTtsPlugin implements Plugin {
     this.logger?.info(
       `[SttTtsPlugin] STT => userId=${userId}, text="${sttText}"`,
     );
+    this.spaceOrParticipant?.emit('transcription', { userId, text: sttText });
+
+    // Chat model reply, spoken sentence by sentence as it streams in
+    await this.respond(sttText, {
+      userId,
+      utteranceEndedAt,
+      transcriptAt: Date.now(),
+    });
+  }
+
+  /**
+   * respond: replies are generated one at a time, so the sentences and memory turns
+   * of two speakers' answers never interleave
+   */
+  private respond(userText: string, timing: ReplyTiming): Promise<void> {
+    const reply = this.replyChain.then(() =>
+      this.streamResponse(userText, timing),
+    );
+    this.replyChain = reply.catch(() => undefined);
+    return reply;
+  }
+
+  /**
+   * streamResponse: streams the chat model's reply, sending each complete sentence to TTS
+   * while the next one is still being generated. Stops generating on barge-in.
+   */
+  private async streamResponse(
+    userText: string,
+    timing: ReplyTiming,
+  ): Promise<void> {
+    const { userId } = timing;
+    this.memory.add('user', userText, {
+      userId,
+      username: this.resolveUsername(userId),
+    });
+    const messages = this.memory.toMessages(this.systemPrompt);
+
+    // The reply grows as sentences are queued
+    const message = this.memory.add('assistant', '');
+    const reply: SpokenReply = {
+      message,
+      spokenText: '',
+      interrupted: false,
+      timing,
+    };
+
+    let pending = '';
+    try {
+      for await (const delta of this.streamReply(messages)) {
+        if (reply.interrupted) break;
+        if (timing.firstTokenAt == null) timing.firstTokenAt = Date.now();
+
+        const { sentences, rest } = takeSentences(pending + delta);
+        pending = rest;
+        for (const sentence of sentences) {
+          this.enqueueSentence(reply, sentence);
+        }
+      }
+      if (!reply.interrupted && pending.trim()) {
+        this.enqueueSentence(reply, pending.trim());
+      }
+    } finally {
+      if (!message.content) this.memory.remove(message);
+    }
 
-    // GPT response
-    const replyText = await this.askChatGPT(sttText);
     this.logger?.info(
-      `[SttTtsPlugin] GPT => userId=${userId}, reply="${replyText}"`,
+      `[SttTtsPlugin] Reply => userId=${userId}, reply="${message.content}"`,
     );
+    this.compactMemory();
+  }
 
-    // Send TTS
-    await this.speakText(replyText);
+  /**
+   * resolveUsername: the speaker's username, from the Space's speakers when hosting
+   */
+  private resolveUsername(userId: string): string | undefined {
+    if (this.spaceOrParticipant instanceof Space) {
+      const speaker = this.spaceOrParticipant
+        .getSpeakers()
+        .find((s) => s.userId === userId);
+      if (speaker?.username) return speaker.username;
+    }
+    return this.speakerUsernames.get(userId);
+  }
+
+  private compactMemory() {
+    this.memory.compact().catch((err) => {
+      this.logger?.error('[SttTtsPlugin] Memory compaction error =>', err);
+    });
+  }
+
+  /**
+   * streamReply: text deltas of the reply, or the whole reply at once
+   * for chat models that can't stream
+   */
+  private async *streamReply(messages: ChatTurn[]): AsyncGenerator<string> {
+    if (!this.chatModel) {
+      throw new Error(
+        '[SttTtsPlugin] No chat model provider (set chatModel or openAiApiKey)',
+      );
+    }
+
+    if (this.chatModel.streamReply) {
+      for await (const delta of this.chatModel.streamReply(messages)) {
+        yield delta;
+      }
+    } else {
+      yield await this.chatModel.generateReply(messages);
+    }
+  }
+
+  private enqueueSentence(reply: SpokenReply, sentence: string) {
+    if (reply.message) {
+      reply.message.content = joinText(reply.message.content, sentence);
+    }
+    this.logger?.debug(`[SttTtsPlugin] Sentence => "${sentence}"`);
+    this.enqueue(sentence, reply);
   }
 
   /**
    * speakText: Public method to enqueue a text message for TTS output
    */
   public async speakText(text: string): Promise<void> {
-    this.ttsQueue.push(text);
+    const reply: SpokenReply = { spokenText: '', interrupted: false };
+    const { sentences, rest } = takeSentences(text);
+    if (rest.trim()) sentences.push(rest.trim());
+
+    for (const sentence of sentences) {
+      this.enqueue(sentence, reply);
+    }
+  }
+
+  /**
+   * enqueue: starts synthesizing right away, so queued sentences are ready by the
+   * time the ones before them have played. Sentences that are dropped before
+   * they play cancel their synthesis
+   */
+  private enqueue(text: string, reply: SpokenReply) {
+    this.ttsQueue.push({
+      text,
+      reply,
+      queuedAt: Date.now(),
+      audio: new Prefetch(this.synthesize(text)),
+    });
 
     if (!this.isSpeaking) {
       this.isSpeaking = true;
@@ -266,221 +592,213 @@ export class SttTtsPlugin implements Plugin {
     }
   }
 
+  /**
+   * synthesize: TTS audio in chunks as they are produced, or all at once
+   * for providers that can't stream
+   */
+  private async *synthesize(text: string): AsyncGenerator<Int16Array> {
+    if (!this.textToSpeech) {
+      throw new Error(
+        '[SttTtsPlugin] No text-to-speech provider (set textToSpeech or elevenLabsApiKey)',
+      );
+    }
+
+    if (this.textToSpeech.synthesizeStream) {
+      for await (const chunk of this.textToSpeech.synthesizeStream(
+        text,
+        48000,
+      )) {
+        yield chunk;
+      }
+    } else {
+      yield await this.textToSpeech.synthesize(text, 48000);
+    }
+  }
+
   /**
    * processTtsQueue: Drains the TTS queue in order, sending frames to Janus
    */
   private async processTtsQueue(): Promise<void> {
     while (this.ttsQueue.length > 0) {
-      const text = this.ttsQueue.shift();
-      if (!text) continue;
+      const item = this.ttsQueue.shift();
+      if (!item) continue;
+
+      const playback: Playback = { item, durationMs: 0, playedMs: 0 };
+      this.playback = playback;
       try {
-        const mp3Buf = await this.elevenLabsTts(text);
-        const pcm = await this.convertMp3ToPcm(mp3Buf, 48000);
-        await this.streamToJanus(pcm, 48000);
+        await this.streamToJanus(this.trackPlayback(playback), 48000, playback);
       } catch (err) {
         this.logger?.error('[SttTtsPlugin] TTS streaming error =>', err);
       }
+      this.playback = undefined;
+
+      if (playback.interruptedBy) {
+        this.handleInterruption(playback, playback.interruptedBy);
+      } else if (!playback.stopped) {
+        item.reply.spokenText = joinText(item.reply.spokenText, item.text);
+      }
     }
     this.isSpeaking = false;
   }
 
   /**
-   * convertPcmToWav: Creates a temporary WAV file from raw PCM samples
+   * trackPlayback: passes the audio through, counting how much was received
+   * and reporting latency when the first chunk of a reply goes out
    */
-  private convertPcmToWav(
-    samples: Int16Array,
-    sampleRate: number,
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const tmpPath = path.resolve('/tmp', `stt-${Date.now()}.wav`);
-      const ff = spawn('ffmpeg', [
-        '-f',
-        's16le',
-        '-ar',
-        sampleRate.toString(),
-        '-ac',
-        '1',
-        '-i',
-        'pipe:0',
-        '-y',
-        tmpPath,
-      ]);
-
-      ff.stdin.write(Buffer.from(samples.buffer));
-      ff.stdin.end();
-
-      ff.on('close', (code) => {
-        if (code === 0) {
-          resolve(tmpPath);
-        } else {
-          reject(new Error(`ffmpeg pcm->wav error code=${code}`));
-        }
-      });
-    });
+  private async *trackPlayback(playback: Playback): AsyncGenerator<Int16Array> {
+    for await (const chunk of playback.item.audio) {
+      if (playback.durationMs === 0) this.reportLatency(playback.item);
+      playback.durationMs += (chunk.length / 48000) * 1000;
+      yield chunk;
+    }
   }
 
   /**
-   * transcribeWithOpenAI: sends the WAV file to OpenAI Whisper
+   * reportLatency: emits "responseLatency" once per reply, when its audio starts
    */
-  private async transcribeWithOpenAI(
-    wavPath: string,
-    language: string,
-  ): Promise<string> {
-    if (!this.openAiApiKey) {
-      throw new Error('[SttTtsPlugin] No OpenAI API key');
-    }
-
-    this.logger?.info('[SttTtsPlugin] Transcribing =>', wavPath);
-    const fileBuffer = fs.readFileSync(wavPath);
-    this.logger?.debug('[SttTtsPlugin] WAV size =>', fileBuffer.length);
-
-    const blob = new Blob([fileBuffer], { type: 'audio/wav' });
-    const formData = new FormData();
-    formData.append('file', blob, path.basename(wavPath));
-    formData.append('model', 'whisper-1');
-    formData.append('language', language);
-    formData.append('temperature', '0');
-
-    const resp = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${this.openAiApiKey}` },
-      body: formData,
-    });
-
-    if (!resp.ok) {
-      const errText = await resp.text();
-      this.logger?.error('[SttTtsPlugin] OpenAI STT error =>', errText);
-      throw new Error(`OpenAI STT => ${resp.status} ${errText}`);
-    }
-
-    const data = (await resp.json()) as { text: string };
-    return data.text.trim();
+  private reportLatency(item: TtsItem) {
+    const timing = item.reply.timing;
+    if (!timing) return;
+    item.reply.timing = undefined;
+
+    const now = Date.now();
+    const latency: ResponseLatency = {
+      userId: timing.userId,
+      sttMs: timing.transcriptAt - timing.utteranceEndedAt,
+      firstTokenMs: (timing.firstTokenAt ?? now) - timing.transcriptAt,
+      firstSentenceMs: item.queuedAt - timing.transcriptAt,
+      ttsFirstChunkMs: (item.audio.firstValueAt ?? now) - item.queuedAt,
+      firstAudioMs: now - timing.utteranceEndedAt,
+    };
+    this.logger?.info('[SttTtsPlugin] responseLatency =>', latency);
+    this.spaceOrParticipant?.emit('responseLatency', latency);
   }
 
   /**
-   * askChatGPT: sends user text to GPT, returns the assistant reply
+   * interrupt: stops the reply being played as soon as possible.
+   * The rest is handled by processTtsQueue once streamToJanus returns.
    */
-  private async askChatGPT(userText: string): Promise<string> {
-    if (!this.openAiApiKey) {
-      throw new Error('[SttTtsPlugin] No OpenAI API key (GPT) provided');
-    }
-
-    const messages = [
-      { role: 'system', content: this.systemPrompt },
-      ...this.chatContext,
-      { role: 'user', content: userText },
-    ];
+  private interrupt(userId: string) {
+    const playback = this.playback;
+    if (!playback || playback.stopped) return;
 
-    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.openAiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ model: this.gptModel, messages }),
-    });
+    playback.interruptedBy = userId;
+    this.logger?.info(`[SttTtsPlugin] Barge-in => userId=${userId}`);
+    this.stopPlayback(playback);
+  }
 
-    if (!resp.ok) {
-      const errText = await resp.text();
-      throw new Error(
-        `[SttTtsPlugin] ChatGPT error => ${resp.status} ${errText}`,
+  /**
+   * stopPlayback: makes streamToJanus return early, stops synthesizing the rest of the
+   * sentence and drops what the mixer still buffers
+   */
+  private stopPlayback(playback: Playback) {
+    playback.stopped = true;
+    playback.item.reply.interrupted = true;
+    playback.item.audio.cancel();
+
+    if (this.mixer && playback.durationMs > 0) {
+      playback.playedMs = Math.max(
+        0,
+        playback.durationMs - this.mixer.getBufferedMs('tts'),
       );
+      this.mixer.clear('tts');
     }
-
-    const json = await resp.json();
-    const reply = json.choices?.[0]?.message?.content || '';
-    // Keep conversation context
-    this.chatContext.push({ role: 'user', content: userText });
-    this.chatContext.push({ role: 'assistant', content: reply });
-    return reply.trim();
   }
 
   /**
-   * elevenLabsTts: fetches MP3 audio from ElevenLabs for a given text
+   * handleInterruption: keeps only the heard part of the reply in the chat context,
+   * drops the rest of it, applies the queue policy and emits "ttsInterrupted".
    */
-  private async elevenLabsTts(text: string): Promise<Buffer> {
-    if (!this.elevenLabsApiKey) {
-      throw new Error('[SttTtsPlugin] No ElevenLabs API key');
+  private handleInterruption(playback: Playback, userId: string) {
+    const { item } = playback;
+    const fraction =
+      playback.durationMs > 0 ? playback.playedMs / playback.durationMs : 0;
+    const heardText = truncateToFraction(item.text, fraction);
+
+    const reply = item.reply;
+    if (reply.message) {
+      const heard = joinText(reply.spokenText, heardText);
+      if (heard) {
+        reply.message.content = `${heard}... [interrupted]`;
+      } else {
+        this.memory.remove(reply.message);
+      }
     }
-
-    const url = `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}`;
-    const resp = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'xi-api-key': this.elevenLabsApiKey,
-      },
-      body: JSON.stringify({
-        text,
-        model_id: this.elevenLabsModel,
-        voice_settings: { stability: 0.4, similarity_boost: 0.8 },
-      }),
-    });
-
-    if (!resp.ok) {
-      const errText = await resp.text();
-      throw new Error(
-        `[SttTtsPlugin] ElevenLabs error => ${resp.status} ${errText}`,
-      );
+    for (const queued of this.ttsQueue) {
+      if (queued.reply === reply) queued.audio.cancel();
     }
+    this.ttsQueue = this.ttsQueue.filter((queued) => queued.reply !== reply);
+
+    const dropped =
+      this.bargeIn.queuePolicy === 'drop' ? this.ttsQueue.splice(0) : [];
+    for (const queued of dropped) {
+      queued.audio.cancel();
+      queued.reply.interrupted = true;
+      if (queued.reply.message) this.memory.remove(queued.reply.message);
+    }
+    const droppedQueue = dropped.map((queued) => queued.text);
 
-    const arrayBuffer = await resp.arrayBuffer();
-    return Buffer.from(arrayBuffer);
+    this.logger?.info(
+      `[SttTtsPlugin] ttsInterrupted => userId=${userId}, playedMs=${Math.round(
+        playback.playedMs,
+      )}/${Math.round(playback.durationMs)}, dropped=${droppedQueue.length}`,
+    );
+    this.spaceOrParticipant?.emit('ttsInterrupted', {
+      userId,
+      text: item.text,
+      heardText,
+      playedMs: playback.playedMs,
+      durationMs: playback.durationMs,
+      droppedQueue,
+    });
   }
 
   /**
-   * convertMp3ToPcm: uses ffmpeg to convert an MP3 buffer to raw PCM
+   * askChatModel: sends user text to the chat model, returns the assistant reply
    */
-  private convertMp3ToPcm(
-    mp3Buf: Buffer,
-    outRate: number,
-  ): Promise<Int16Array> {
-    return new Promise((resolve, reject) => {
-      const ff = spawn('ffmpeg', [
-        '-i',
-        'pipe:0',
-        '-f',
-        's16le',
-        '-ar',
-        outRate.toString(),
-        '-ac',
-        '1',
-        'pipe:1',
-      ]);
-
-      let raw = Buffer.alloc(0);
+  private async askChatModel(userText: string): Promise<string> {
+    if (!this.chatModel) {
+      throw new Error(
+        '[SttTtsPlugin] No chat model provider (set chatModel or openAiApiKey)',
+      );
+    }
 
-      ff.stdout.on('data', (chunk: Buffer) => {
-        raw = Buffer.concat([raw, chunk]);
-      });
-      ff.stderr.on('data', () => {
-        // ignoring ffmpeg stderr
-      });
-      ff.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error(`ffmpeg mp3->pcm error code=${code}`));
-          return;
-        }
-        const samples = new Int16Array(
-          raw.buffer,
-          raw.byteOffset,
-          raw.byteLength / 2,
-        );
-        resolve(samples);
-      });
+    const userTurn = this.memory.add('user', userText);
+    let reply: string;
+    try {
+      reply = await this.chatModel.generateReply(
+        this.memory.toMessages(this.systemPrompt),
+      );
+    } catch (err) {
+      this.memory.remove(userTurn);
+      throw err;
+    }
 
-      ff.stdin.write(mp3Buf);
-      ff.stdin.end();
-    });
+    // Keep conversation context
+    this.memory.add('assistant', reply);
+    this.compactMemory();
+    return reply;
   }
 
   /**
-   * streamToJanus: push PCM frames to Janus in small increments (~10ms).
+   * streamToJanus: push PCM frames to Janus in small increments (~10ms) as the audio arrives.
+   * With a mixer, the chunks are queued on its "tts" source and paced by the mixer instead.
+   * Stops early if the playback gets interrupted.
    */
   private async streamToJanus(
-    samples: Int16Array,
+    audio: AsyncIterable<Int16Array>,
     sampleRate: number,
+    playback: Playback,
   ): Promise<void> {
+    if (this.mixer) {
+      for await (const chunk of audio) {
+        if (playback.stopped) return;
+        this.mixer.push('tts', chunk, sampleRate);
+      }
+      await this.mixer.waitForDrain('tts');
+      return;
+    }
+
     if (!this.janus) {
       this.logger?.warn(
         '[SttTtsPlugin] No JanusClient available, cannot send TTS audio',
@@ -490,14 +808,10 @@ export class SttTtsPlugin implements Plugin {
 
     const frameSize = Math.floor(sampleRate * 0.01); // 10ms => e.g. 480 @ 48kHz
 
-    for (
-      let offset = 0;
-      offset + frameSize <= samples.length;
-      offset += frameSize
-    ) {
-      const frame = new Int16Array(frameSize);
-      frame.set(samples.subarray(offset, offset + frameSize));
+    for await (const frame of toFrames(audio, frameSize)) {
+      if (playback.stopped) return;
       this.janus.pushLocalAudio(frame, sampleRate, 1);
+      playback.playedMs += (frameSize / sampleRate) * 1000;
       await new Promise((r) => setTimeout(r, 10));
     }
   }
@@ -511,10 +825,16 @@ export class SttTtsPlugin implements Plugin {
   }
 
   /**
-   * setGptModel: switch GPT model (e.g. "gpt-4")
+   * setGptModel: switch GPT model (e.g. "gpt-4"). Only applies to the default OpenAI chat model.
    */
   public setGptModel(model: string): void {
-    this.gptModel = model;
+    if (!(this.chatModel instanceof OpenAIChatModel)) {
+      this.logger?.warn(
+        '[SttTtsPlugin] setGptModel => chat model is not OpenAI; ignoring',
+      );
+      return;
+    }
+    this.chatModel.model = model;
     this.logger?.info('[SttTtsPlugin] setGptModel =>', model);
   }
 
@@ -525,7 +845,7 @@ export class SttTtsPlugin implements Plugin {
     role: 'system' | 'user' | 'assistant',
     content: string,
   ): void {
-    this.chatContext.push({ role, content });
+    this.memory.add(role, content);
     this.logger?.debug(
       `[SttTtsPlugin] addMessage => role=${role}, content="${content}"`,
     );
@@ -535,19 +855,146 @@ export class SttTtsPlugin implements Plugin {
    * clearChatContext: resets the GPT conversation
    */
   public clearChatContext(): void {
-    this.chatContext = [];
+    this.memory.clear();
     this.logger?.debug('[SttTtsPlugin] clearChatContext => done');
   }
 
+  /**
+   * getMemory: the conversation memory, e.g. to save() it when the Space ends
+   * and restore() it in the next one
+   */
+  public getMemory(): ConversationMemory {
+    return this.memory;
+  }
+
   /**
    * cleanup: release resources when the space/participant is stopping or plugin removed
    */
   cleanup(): void {
     this.logger?.info('[SttTtsPlugin] cleanup => releasing resources');
 
-    this.pcmBuffers.clear();
-    this.speakerUnmuted.clear();
+    this.vad?.reset();
+    for (const item of this.ttsQueue) {
+      item.audio.cancel();
+      item.reply.interrupted = true;
+    }
     this.ttsQueue = [];
-    this.isSpeaking = false;
+
+    // The running processTtsQueue returns once the playback stops, and resets isSpeaking itself
+    if (this.playback) this.stopPlayback(this.playback);
+  }
+}
+
+/**
+ * Cuts text roughly at the given fraction of its length, on a word boundary.
+ */
+function truncateToFraction(text: string, fraction: number): string {
+  if (fraction >= 1) return text;
+  const cut = Math.floor(text.length * Math.max(0, fraction));
+  if (cut === 0) return '';
+
+  const end = /\s/.test(text[cut] ?? '') ? cut : text.lastIndexOf(' ', cut);
+  return end > 0 ? text.slice(0, end).trimEnd() : '';
+}
+
+function joinText(a: string, b: string): string {
+  return a && b ? `${a} ${b}` : a || b;
+}
+
+/**
+ * Consumes an async iterable eagerly, buffering values until they are read.
+ * Errors are rethrown to the reader.
+ */
+class Prefetch<T> implements AsyncIterable<T> {
+  /**
+   * When (ms) the first value arrived
+   */
+  public firstValueAt?: number;
+
+  private buffered: T[] = [];
+  private done = false;
+  private error: unknown;
+  private wake?: () => void;
+  private readonly iterator: AsyncIterator<T>;
+
+  constructor(source: AsyncIterable<T>) {
+    this.iterator = source[Symbol.asyncIterator]();
+    this.consume();
+  }
+
+  /**
+   * Stops consuming the source, e.g. to stop synthesizing a sentence that won't be played.
+   * Readers get no more values.
+   */
+  cancel() {
+    if (this.done) return;
+    this.done = true;
+    this.buffered = [];
+    this.iterator.return?.().catch(() => undefined);
+    this.notify();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffered.length > 0) {
+        yield this.buffered.shift() as T;
+        continue;
+      }
+      if (this.error) throw this.error;
+      if (this.done) return;
+      await new Promise<void>((resolve) => (this.wake = resolve));
+    }
+  }
+
+  private async consume() {
+    try {
+      while (!this.done) {
+        const { done, value } = await this.iterator.next();
+        if (done || this.done) break;
+
+        if (this.firstValueAt == null) this.firstValueAt = Date.now();
+        this.buffered.push(value);
+        this.notify();
+      }
+    } catch (err) {
+      if (!this.done) this.error = err;
+    } finally {
+      this.done = true;
+      this.notify();
+    }
+  }
+
+  private notify() {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
+
+/**
+ * Regroups audio chunks into frames of exactly frameSize samples. The last one is padded with silence.
+ */
+async function* toFrames(
+  audio: AsyncIterable<Int16Array>,
+  frameSize: number,
+): AsyncGenerator<Int16Array> {
+  let frame = new Int16Array(frameSize);
+  let filled = 0;
+
+  for await (const chunk of audio) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const count = Math.min(frameSize - filled, chunk.length - offset);
+      frame.set(chunk.subarray(offset, offset + count), filled);
+      filled += count;
+      offset += count;
+
+      if (filled === frameSize) {
+        yield frame;
+        frame = new Int16Array(frameSize);
+        filled = 0;
+      }
+    }
   }
+  if (filled > 0) yield frame;
 }
@@ -0,0 +1,103 @@
+// src/providers/DeepgramSpeechToText.ts
+
+import WebSocket from 'ws';
+import { SpeechToTextProvider } from './types';
+import { DeepgramService } from '../../services/deepgram/deepgram-service';
+
+export interface DeepgramSpeechToTextOptions {
+  apiKey: string;
+
+  /**
+   * e.g. "en-US". (Default: "en-US")
+   */
+  language?: string;
+
+  model?: string;
+
+  /**
+   * How long (ms) to wait for the final transcripts before giving up. (Default: 30s)
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Speech-to-text over Deepgram's streaming API. Each utterance is streamed on its own
+ * connection, which is closed once Deepgram has returned the final transcripts.
+ */
+export class DeepgramSpeechToText implements SpeechToTextProvider {
+  private readonly apiKey: string;
+  private readonly language: string;
+  private readonly model?: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: DeepgramSpeechToTextOptions) {
+    this.apiKey = options.apiKey;
+    this.language = options.language ?? 'en-US';
+    this.model = options.model;
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+  }
+
+  async transcribe(samples: Int16Array, sampleRate: number): Promise<string> {
+    const service = new DeepgramService(this.apiKey);
+    const transcripts: string[] = [];
+
+    const ws = await service.connectLiveTranscription(
+      {
+        language: this.language,
+        sampleRate,
+        ...(this.model && { model: this.model }),
+      },
+      (text) => {
+        if (text.trim()) transcripts.push(text.trim());
+      },
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        ws.off('close', onClose);
+        ws.close();
+        reject(
+          new Error(
+            `[DeepgramSpeechToText] No transcript after ${this.timeoutMs}ms`,
+          ),
+        );
+      }, this.timeoutMs);
+
+      // Deepgram closes with 1000 once it is done; anything else (bad key, invalid
+      // audio, server error) means the transcripts are missing
+      const onClose = (code: number, reason: Buffer) => {
+        clearTimeout(timeout);
+        if (code === 1000) {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              `[DeepgramSpeechToText] Connection closed with ${code}: ${reason.toString()}`,
+            ),
+          );
+        }
+      };
+      ws.once('close', onClose);
+      ws.once('error', (err) => {
+        clearTimeout(timeout);
+        ws.off('close', onClose);
+        reject(err);
+      });
+
+      const send = () => {
+        ws.send(
+          Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength),
+        );
+        // Deepgram flushes the remaining results, then closes the connection
+        ws.send(JSON.stringify({ type: 'CloseStream' }));
+      };
+      if (ws.readyState === WebSocket.OPEN) {
+        send();
+      } else {
+        ws.once('open', send);
+      }
+    });
+
+    return transcripts.join(' ');
+  }
+}
@@ -0,0 +1,74 @@
+// src/providers/ElevenLabsTextToSpeech.ts
+
+import { TextToSpeechProvider } from './types';
+import { decodeToPcm, decodeToPcmStream } from './audio';
+import { readChunks } from './stream';
+
+export interface ElevenLabsTextToSpeechOptions {
+  apiKey: string;
+
+  /**
+   * (Default: "21m00Tcm4TlvDq8ikWAM")
+   */
+  voiceId?: string;
+
+  /**
+   * (Default: "eleven_monolingual_v1")
+   */
+  model?: string;
+}
+
+/**
+ * Text-to-speech with ElevenLabs. Needs ffmpeg to decode the returned MP3.
+ * synthesizeStream uses the streaming endpoint and decodes the MP3 as it downloads.
+ */
+export class ElevenLabsTextToSpeech implements TextToSpeechProvider {
+  private readonly apiKey: string;
+  private readonly voiceId: string;
+  private readonly model: string;
+
+  constructor(options: ElevenLabsTextToSpeechOptions) {
+    this.apiKey = options.apiKey;
+    this.voiceId = options.voiceId ?? '21m00Tcm4TlvDq8ikWAM';
+    this.model = options.model ?? 'eleven_monolingual_v1';
+  }
+
+  async synthesize(text: string, sampleRate: number): Promise<Int16Array> {
+    const resp = await this.request(text, '');
+    const mp3 = Buffer.from(await resp.arrayBuffer());
+    return decodeToPcm(mp3, sampleRate);
+  }
+
+  async *synthesizeStream(
+    text: string,
+    sampleRate: number,
+  ): AsyncGenerator<Int16Array> {
+    const resp = await this.request(text, '/stream');
+    if (!resp.body) {
+      throw new Error('ElevenLabs TTS => empty response body');
+    }
+    yield* decodeToPcmStream(readChunks(resp.body), sampleRate);
+  }
+
+  private async request(text: string, path: '' | '/stream') {
+    const url = `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}${path}`;
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        text,
+        model_id: this.model,
+        voice_settings: { stability: 0.4, similarity_boost: 0.8 },
+      }),
+    });
+
+    if (!resp.ok) {
+      const errText = await resp.text();
+      throw new Error(`ElevenLabs TTS => ${resp.status} ${errText}`);
+    }
+    return resp;
+  }
+}
@@ -0,0 +1,36 @@
+// src/providers/GrokChatModel.ts
+
+import { ChatModelProvider, ChatTurn } from './types';
+import { Scraper } from '../../scraper';
+import { GrokMessage } from '../../grok';
+
+/**
+ * Chat replies from Grok, through the logged-in account of a Scraper.
+ * Grok has no system role, so system messages are sent as the opening user message.
+ */
+export class GrokChatModel implements ChatModelProvider {
+  constructor(private readonly scraper: Scraper) {}
+
+  async generateReply(messages: ChatTurn[]): Promise<string> {
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n');
+
+    const grokMessages: GrokMessage[] = messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({
+        role: message.role as GrokMessage['role'],
+        content: message.content,
+      }));
+    if (system) {
+      grokMessages.unshift({ role: 'user', content: system });
+    }
+
+    const res = await this.scraper.grokChat({ messages: grokMessages });
+    if (res.rateLimit?.isRateLimited) {
+      throw new Error(`Grok rate limited => ${res.rateLimit.message}`);
+    }
+    return res.message.trim();
+  }
+}
@@ -0,0 +1,68 @@
+// src/providers/OpenAIChatModel.ts
+
+import { ChatModelProvider, ChatTurn } from './types';
+import { readServerSentEvents } from './stream';
+
+export interface OpenAIChatModelOptions {
+  apiKey: string;
+
+  /**
+   * e.g. "gpt-4". (Default: "gpt-3.5-turbo")
+   */
+  model?: string;
+}
+
+/**
+ * Chat replies from the OpenAI chat completions API.
+ */
+export class OpenAIChatModel implements ChatModelProvider {
+  private readonly apiKey: string;
+
+  /**
+   * Can be switched at runtime; applies to the next reply.
+   */
+  public model: string;
+
+  constructor(options: OpenAIChatModelOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'gpt-3.5-turbo';
+  }
+
+  async generateReply(messages: ChatTurn[]): Promise<string> {
+    const resp = await this.request(messages, false);
+    const json = await resp.json();
+    const reply: string = json.choices?.[0]?.message?.content || '';
+    return reply.trim();
+  }
+
+  async *streamReply(messages: ChatTurn[]): AsyncGenerator<string> {
+    const resp = await this.request(messages, true);
+    if (!resp.body) {
+      throw new Error('OpenAI chat => empty response body');
+    }
+
+    for await (const data of readServerSentEvents(resp.body)) {
+      if (data === '[DONE]') return;
+      const json = JSON.parse(data);
+      const delta: string | undefined = json.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private async request(messages: ChatTurn[], stream: boolean) {
+    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, messages, stream }),
+    });
+
+    if (!resp.ok) {
+      const errText = await resp.text();
+      throw new Error(`OpenAI chat => ${resp.status} ${errText}`);
+    }
+    return resp;
+  }
+}
@@ -0,0 +1,58 @@
+// src/providers/OpenAISpeechToText.ts
+
+import { SpeechToTextProvider } from './types';
+import { encodeWav } from './audio';
+
+export interface OpenAISpeechToTextOptions {
+  apiKey: string;
+
+  /**
+   * Language of the speech, e.g. "en". (Default: "en")
+   */
+  language?: string;
+
+  /**
+   * (Default: "whisper-1")
+   */
+  model?: string;
+}
+
+/**
+ * Speech-to-text with OpenAI Whisper.
+ */
+export class OpenAISpeechToText implements SpeechToTextProvider {
+  private readonly apiKey: string;
+  private readonly language: string;
+  private readonly model: string;
+
+  constructor(options: OpenAISpeechToTextOptions) {
+    this.apiKey = options.apiKey;
+    this.language = options.language ?? 'en';
+    this.model = options.model ?? 'whisper-1';
+  }
+
+  async transcribe(samples: Int16Array, sampleRate: number): Promise<string> {
+    const wav = encodeWav(samples, sampleRate);
+
+    const blob = new Blob([wav], { type: 'audio/wav' });
+    const formData = new FormData();
+    formData.append('file', blob, `stt-${Date.now()}.wav`);
+    formData.append('model', this.model);
+    formData.append('language', this.language);
+    formData.append('temperature', '0');
+
+    const resp = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: formData,
+    });
+
+    if (!resp.ok) {
+      const errText = await resp.text();
+      throw new Error(`OpenAI STT => ${resp.status} ${errText}`);
+    }
+
+    const data = (await resp.json()) as { text: string };
+    return data.text.trim();
+  }
+}
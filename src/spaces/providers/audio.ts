@@ -0,0 +1,142 @@
+// src/providers/audio.ts
+
+import { spawn } from 'child_process';
+import { once } from 'events';
+
+/**
+ * Wraps 16-bit mono PCM in a WAV container, for APIs that expect an audio file.
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16); // fmt chunk size
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  wav.writeUInt16LE(2, 32); // block align
+  wav.writeUInt16LE(16, 34); // bits per sample
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataSize, 40);
+  Buffer.from(samples.buffer, samples.byteOffset, dataSize).copy(wav, 44);
+
+  return wav;
+}
+
+/**
+ * Uses ffmpeg to decode compressed audio (e.g. MP3) to 16-bit mono PCM.
+ */
+export function decodeToPcm(
+  encoded: Buffer,
+  outRate: number,
+): Promise<Int16Array> {
+  return new Promise((resolve, reject) => {
+    const ff = spawn('ffmpeg', [
+      '-i',
+      'pipe:0',
+      '-f',
+      's16le',
+      '-ar',
+      outRate.toString(),
+      '-ac',
+      '1',
+      'pipe:1',
+    ]);
+
+    let raw = Buffer.alloc(0);
+
+    ff.stdout.on('data', (chunk: Buffer) => {
+      raw = Buffer.concat([raw, chunk]);
+    });
+    ff.stderr.on('data', () => {
+      // ignoring ffmpeg stderr
+    });
+    ff.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg decode error code=${code}`));
+        return;
+      }
+      const samples = new Int16Array(
+        raw.buffer,
+        raw.byteOffset,
+        raw.byteLength / 2,
+      );
+      resolve(samples);
+    });
+
+    ff.stdin.write(encoded);
+    ff.stdin.end();
+  });
+}
+
+/**
+ * Like decodeToPcm, but feeds ffmpeg as the encoded audio arrives and yields
+ * PCM chunks as soon as they are decoded.
+ */
+export async function* decodeToPcmStream(
+  encoded: AsyncIterable<Uint8Array>,
+  outRate: number,
+): AsyncGenerator<Int16Array> {
+  const ff = spawn('ffmpeg', [
+    '-i',
+    'pipe:0',
+    '-f',
+    's16le',
+    '-ar',
+    outRate.toString(),
+    '-ac',
+    '1',
+    'pipe:1',
+  ]);
+  const exited = new Promise<number | null>((resolve) => {
+    ff.on('close', resolve);
+  });
+  ff.stderr.on('data', () => {
+    // ignoring ffmpeg stderr
+  });
+
+  let inputError: unknown;
+  const feeding = (async () => {
+    try {
+      for await (const chunk of encoded) {
+        if (!ff.stdin.write(chunk)) {
+          await once(ff.stdin, 'drain');
+        }
+      }
+    } catch (err) {
+      inputError = err;
+      ff.kill();
+    } finally {
+      ff.stdin.end();
+    }
+  })();
+
+  // Samples can straddle two stdout chunks
+  let leftover = Buffer.alloc(0);
+  try {
+    for await (const data of ff.stdout as AsyncIterable<Buffer>) {
+      const raw = Buffer.concat([leftover, data]);
+      const usable = raw.length - (raw.length % 2);
+      leftover = raw.subarray(usable);
+      if (usable > 0) {
+        // Copy, so the samples start on an aligned offset
+        yield new Int16Array(new Uint8Array(raw.subarray(0, usable)).buffer);
+      }
+    }
+  } finally {
+    // The consumer stopped early
+    if (ff.exitCode === null) ff.kill();
+  }
+
+  await feeding;
+  if (inputError) throw inputError;
+  const code = await exited;
+  if (code !== 0) {
+    throw new Error(`ffmpeg decode error code=${code}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { readServerSentEvents, takeSentences } from './stream';
+
+function streamText(text: string): string[] {
+  const sentences: string[] = [];
+  let pending = '';
+  // Feed it in small deltas, the way a chat model streams tokens
+  for (let i = 0; i < text.length; i += 3) {
+    const result = takeSentences(pending + text.slice(i, i + 3));
+    sentences.push(...result.sentences);
+    pending = result.rest;
+  }
+  return [...sentences, pending.trim()];
+}
+
+test('streamed text is split into sentences as they complete', () => {
+  expect(
+    streamText(
+      'The first sentence is here. Is this the second one? Yes, and the last',
+    ),
+  ).toEqual([
+    'The first sentence is here.',
+    'Is this the second one?',
+    'Yes, and the last',
+  ]);
+});
+
+test('short sentences, decimals and prices are not split off', () => {
+  expect(
+    streamText('Sure. Version 1.5 costs $3.99 today! Thanks for asking.'),
+  ).toEqual(['Sure. Version 1.5 costs $3.99 today!', 'Thanks for asking.']);
+});
+
+test('line breaks end a sentence', () => {
+  expect(takeSentences('A list of things to say\n- and the rest')).toEqual({
+    sentences: ['A list of things to say'],
+    rest: '- and the rest',
+  });
+});
+
+test('a sentence is held back until whitespace follows it', () => {
+  expect(takeSentences('This might not be the end.')).toEqual({
+    sentences: [],
+    rest: 'This might not be the end.',
+  });
+});
+
+test('server-sent events are read across chunk boundaries', async () => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of ['data: {"a":', '1}\n\ndata: [DO', 'NE]\n\n']) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(body)) {
+    events.push(data);
+  }
+  expect(events).toEqual(['{"a":1}', '[DONE]']);
+});
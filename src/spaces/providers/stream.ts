@@ -0,0 +1,72 @@
+// src/providers/stream.ts
+
+/**
+ * Reads a fetch response body chunk by chunk. Stopping early cancels the download.
+ */
+export async function* readChunks(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield value;
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Yields the data field of each server-sent event in a fetch response body.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of readChunks(body)) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        yield line.slice('data:'.length).trim();
+      }
+    }
+  }
+}
+
+/**
+ * Matches the end of a sentence: terminal punctuation followed by whitespace, or a line break
+ */
+const SENTENCE_END = /[.!?…]+["')\]]*\s+|\n+/g;
+
+/**
+ * Sentences shorter than this are merged with the next one, so "Sure." or "Dr." aren't sent alone
+ */
+const MIN_SENTENCE_LENGTH = 20;
+
+/**
+ * Splits the complete sentences off streamed text. The unfinished rest is returned for the next delta.
+ */
+export function takeSentences(text: string): {
+  sentences: string[];
+  rest: string;
+} {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence.length < MIN_SENTENCE_LENGTH) continue;
+
+    sentences.push(sentence);
+    start = end;
+  }
+  return { sentences, rest: text.slice(start) };
+}
@@ -0,0 +1,53 @@
+// src/providers/types.ts
+
+/**
+ * One message of a conversation with a chat model.
+ */
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Turns speech into text.
+ */
+export interface SpeechToTextProvider {
+  /**
+   * Transcribes one utterance of 16-bit mono PCM.
+   * @returns The recognized text, or an empty string if nothing was recognized.
+   */
+  transcribe(samples: Int16Array, sampleRate: number): Promise<string>;
+}
+
+/**
+ * Produces the assistant's replies in a conversation.
+ */
+export interface ChatModelProvider {
+  /**
+   * Returns the assistant's reply to a conversation whose last message is from the user.
+   */
+  generateReply(messages: ChatTurn[]): Promise<string>;
+
+  /**
+   * Optional: streams the same reply as text deltas while it is being generated.
+   */
+  streamReply?(messages: ChatTurn[]): AsyncIterable<string>;
+}
+
+/**
+ * Turns text into speech.
+ */
+export interface TextToSpeechProvider {
+  /**
+   * Synthesizes text into 16-bit mono PCM at the given sample rate.
+   */
+  synthesize(text: string, sampleRate: number): Promise<Int16Array>;
+
+  /**
+   * Optional: streams the same speech in chunks while it is being synthesized.
+   */
+  synthesizeStream?(
+    text: string,
+    sampleRate: number,
+  ): AsyncIterable<Int16Array>;
+}
@@ -224,6 +224,19 @@ async function main() {
     }
   });
 
+  // Log connection drops and recoveries
+  space.on('reconnecting', ({ component, attempt, delayMs }) => {
+    console.log(
+      `[StartSpace] Reconnecting ${component} (attempt ${attempt}, in ${delayMs}ms)...`,
+    );
+  });
+  space.on('reconnected', ({ component }) => {
+    console.log(`[StartSpace] ${component} reconnected`);
+  });
+  space.on('reconnectFailed', (err) => {
+    console.error('[StartSpace] Could not reconnect =>', err);
+  });
+
   // Set up heartbeat to check space is still active
   const heartbeatInterval = setInterval(() => {
     if (!spaceActive) {
@@ -96,17 +96,17 @@ async function main() {
     sttTtsPlugin.setGptModel('gpt-4');
   }, 60_000);
 
-  // Also, demonstrate how to manually call askChatGPT and speak the result
+  // Also, demonstrate how to manually call askChatModel and speak the result
   setTimeout(async () => {
     console.log('[Test] Asking GPT for an introduction...');
     try {
-      const response = await sttTtsPlugin['askChatGPT']('Introduce yourself');
+      const response = await sttTtsPlugin['askChatModel']('Introduce yourself');
       console.log('[Test] ChatGPT introduction =>', response);
 
       // Then speak it
       await sttTtsPlugin.speakText(response);
     } catch (err) {
-      console.error('[Test] askChatGPT error =>', err);
+      console.error('[Test] askChatModel error =>', err);
     }
   }, 75_000);
 
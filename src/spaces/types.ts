@@ -53,6 +53,14 @@ export interface SpeakerRequest {
   sessionUUID: string;
 }
 
+/**
+ * A piece of recognized speech, emitted as a "transcription" event by speech-to-text plugins.
+ */
+export interface Transcription {
+  userId: string;
+  text: string;
+}
+
 /**
  * Occupancy update describing the number of participants in a Space.
  */
@@ -69,6 +77,19 @@ export interface GuestReaction {
   emoji: string;
 }
 
+/**
+ * A text message posted in a Space's chat.
+ */
+export interface ChatMessage {
+  sender: {
+    userId: string;
+    username?: string;
+    displayName: string;
+  };
+  text: string;
+  timestamp: Date;
+}
+
 /**
  * Response structure after creating a broadcast on Periscope/Twitter.
  */
@@ -88,6 +109,40 @@ export interface BroadcastCreated {
   stream_url: string;
 }
 
+/**
+ * Details of a Space announced ahead of time.
+ */
+export interface ScheduledSpaceConfig {
+  title: string;
+  description?: string;
+  startAt: Date;
+  languages?: string[];
+
+  /**
+   * Topic IDs, as returned by Scraper.browseSpaceTopics().
+   */
+  topics?: string[];
+
+  /**
+   * ID of the community to host the Space in, as returned by Scraper.communitySelectQuery().
+   */
+  communityId?: string;
+
+  /**
+   * Whether the Space will be available for replay. (Default: false)
+   */
+  record?: boolean;
+}
+
+/**
+ * A Space that has been scheduled but not started yet.
+ */
+export interface ScheduledSpace {
+  id: string;
+  shareUrl: string;
+  startAt: Date;
+}
+
 /**
  * Describes TURN server credentials and URIs.
  */
@@ -98,6 +153,43 @@ export interface TurnServersInfo {
   uris: string[];
 }
 
+/**
+ * Controls how a dropped chat or Janus connection is re-established.
+ */
+export interface ReconnectOptions {
+  /**
+   * Number of attempts before giving up. (Default: 10)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first attempt, doubled after each failure. (Default: 1000ms)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts. (Default: 30000ms)
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Payload of the "reconnecting" event.
+ */
+export interface ReconnectingEvent {
+  component: 'chat' | 'janus';
+  attempt: number;
+  delayMs: number;
+}
+
+/**
+ * Payload of the "reconnected" event.
+ */
+export interface ReconnectedEvent {
+  component: 'chat' | 'janus';
+  attempts: number;
+}
+
 /**
  * Defines a plugin interface for both Space (broadcast host) and SpaceParticipant (listener/speaker).
  *
@@ -154,11 +246,24 @@ export interface PluginRegistration {
   config?: Record<string, any>;
 }
 
+/**
+ * A co-host of a Space.
+ */
+export interface CohostInfo {
+  userId: string;
+  username: string;
+  displayName: string;
+}
+
 /**
  * Stores information about a speaker in a Space (host perspective).
  */
 export interface SpeakerInfo {
   userId: string;
+  /**
+   * Known if the speaker requested to speak through chat
+   */
+  username?: string;
   sessionUUID: string;
   janusParticipantId?: number;
 }
@@ -1,10 +1,16 @@
 // src/utils.ts
 
 import { Headers } from 'headers-polyfill';
-import type { BroadcastCreated, TurnServersInfo } from './types';
+import type {
+  BroadcastCreated,
+  CohostInfo,
+  ReconnectOptions,
+  TurnServersInfo,
+} from './types';
+import type { AudioSpace } from '../types/spaces';
 import { ChatClient } from './core/ChatClient';
 import { Logger } from './logger';
-import { EventEmitter } from 'events';
+import type { TypedEventEmitter, SpaceEvents } from './events';
 
 /**
  * Authorizes a token for guest access, using the provided Periscope cookie.
@@ -49,12 +55,14 @@ export async function authorizeToken(cookie: string): Promise<string> {
  * Generally invoked after creating the broadcast and initializing Janus.
  */
 export async function publishBroadcast(params: {
-  title: string;
+  title?: string;
   broadcast: BroadcastCreated;
   cookie: string;
   janusSessionId?: number;
   janusHandleId?: number;
   janusPublisherId?: number;
+  topics?: string[];
+  communityId?: string;
 }): Promise<void> {
   const headers = new Headers({
     'X-Periscope-User-Agent': 'Twitter/m5',
@@ -75,8 +83,10 @@ export async function publishBroadcast(params: {
       janus_publisher_id: params.janusPublisherId,
       janus_room_id: params.broadcast.room_id,
       cookie: params.cookie,
-      status: params.title,
+      ...(params.title != null && { status: params.title }),
       conversation_controls: 0,
+      ...(params.topics && { topics: params.topics }),
+      ...(params.communityId && { community_id: params.communityId }),
     }),
   });
 }
@@ -128,10 +138,16 @@ export async function getRegion(): Promise<string> {
 /**
  * Creates a new broadcast on Periscope/Twitter.
  * Used by the host to create the underlying audio-room structure.
+ * With scheduledStartTime, the broadcast is only announced and must be started later
+ * with startScheduledBroadcast.
  */
 export async function createBroadcast(params: {
+  title?: string;
   description?: string;
   languages?: string[];
+  topics?: string[];
+  communityId?: string;
+  scheduledStartTime?: Date;
   cookie: string;
   region: string;
   record: boolean;
@@ -160,6 +176,12 @@ export async function createBroadcast(params: {
       languages: params.languages ?? [],
       region: params.region,
       width: 1920,
+      status: params.title ?? '',
+      topics: params.topics ?? [],
+      ...(params.communityId && { community_id: params.communityId }),
+      ...(params.scheduledStartTime && {
+        scheduled_start_time: toUnixSeconds(params.scheduledStartTime),
+      }),
     }),
   });
 
@@ -174,6 +196,129 @@ export async function createBroadcast(params: {
   return data as BroadcastCreated;
 }
 
+/**
+ * Changes the details of a scheduled broadcast. Fields that are not set keep their current value.
+ */
+export async function updateScheduledBroadcast(params: {
+  broadcastId: string;
+  cookie: string;
+  title?: string;
+  description?: string;
+  languages?: string[];
+  topics?: string[];
+  scheduledStartTime?: Date;
+}): Promise<void> {
+  const headers = new Headers({
+    'X-Periscope-User-Agent': 'Twitter/m5',
+    'Content-Type': 'application/json',
+    'X-Idempotence': Date.now().toString(),
+    Referer: 'https://x.com/',
+    'X-Attempt': '1',
+  });
+
+  const resp = await fetch(
+    'https://proxsee.pscp.tv/api/v2/updateScheduledBroadcast',
+    {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        broadcast_id: params.broadcastId,
+        cookie: params.cookie,
+        status: params.title,
+        description: params.description,
+        languages: params.languages,
+        topics: params.topics,
+        scheduled_start_time: params.scheduledStartTime
+          ? toUnixSeconds(params.scheduledStartTime)
+          : undefined,
+      }),
+    },
+  );
+
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(
+      `updateScheduledBroadcast => request failed with status ${resp.status} ${text}`,
+    );
+  }
+}
+
+/**
+ * Cancels a scheduled broadcast before it starts.
+ */
+export async function cancelScheduledBroadcast(params: {
+  broadcastId: string;
+  cookie: string;
+}): Promise<void> {
+  const headers = new Headers({
+    'X-Periscope-User-Agent': 'Twitter/m5',
+    'Content-Type': 'application/json',
+    'X-Idempotence': Date.now().toString(),
+    Referer: 'https://x.com/',
+    'X-Attempt': '1',
+  });
+
+  const resp = await fetch(
+    'https://proxsee.pscp.tv/api/v2/cancelScheduledBroadcast',
+    {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        broadcast_id: params.broadcastId,
+        cookie: params.cookie,
+      }),
+    },
+  );
+
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(
+      `cancelScheduledBroadcast => request failed with status ${resp.status} ${text}`,
+    );
+  }
+}
+
+/**
+ * Starts a scheduled broadcast, returning the same details as createBroadcast.
+ * The broadcast still has to be published once Janus is up.
+ */
+export async function startScheduledBroadcast(params: {
+  broadcastId: string;
+  cookie: string;
+  region: string;
+}): Promise<BroadcastCreated> {
+  const headers = new Headers({
+    'X-Periscope-User-Agent': 'Twitter/m5',
+    'Content-Type': 'application/json',
+    'X-Idempotence': Date.now().toString(),
+    Referer: 'https://x.com/',
+    'X-Attempt': '1',
+  });
+
+  const resp = await fetch(
+    'https://proxsee.pscp.tv/api/v2/startScheduledBroadcast',
+    {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        broadcast_id: params.broadcastId,
+        cookie: params.cookie,
+        region: params.region,
+      }),
+    },
+  );
+
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(
+      `startScheduledBroadcast => request failed with status ${resp.status} ${text}`,
+    );
+  }
+
+  const data = await resp.json();
+  return data as BroadcastCreated;
+}
+
 /**
  * Acquires chat access info (token, endpoint, etc.) from Periscope.
  * Needed to connect via WebSocket to the chat server.
@@ -486,6 +631,123 @@ export async function unmuteSpeaker(params: {
   }
 }
 
+/**
+ * Invites a user to co-host (POST /audiospace/admin/inviteCohost).
+ * Only the host can invite co-hosts.
+ */
+export async function inviteCohost(params: {
+  broadcastId: string;
+  userId: string;
+  chatToken: string;
+  authToken: string;
+}): Promise<void> {
+  const url = 'https://guest.pscp.tv/api/v1/audiospace/admin/inviteCohost';
+
+  const body = {
+    broadcast_id: params.broadcastId,
+    invitee_twitter_user_id: params.userId,
+    chat_token: params.chatToken,
+  };
+
+  const headers = new Headers({
+    'Content-Type': 'application/json',
+    Authorization: params.authToken,
+  });
+
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(`inviteCohost => ${resp.status} ${text}`);
+  }
+}
+
+/**
+ * Revokes a co-host's role, or a pending invitation (POST /audiospace/admin/removeCohost).
+ */
+export async function removeCohost(params: {
+  broadcastId: string;
+  userId: string;
+  chatToken: string;
+  authToken: string;
+}): Promise<void> {
+  const url = 'https://guest.pscp.tv/api/v1/audiospace/admin/removeCohost';
+
+  const body = {
+    broadcast_id: params.broadcastId,
+    cohost_twitter_user_id: params.userId,
+    chat_token: params.chatToken,
+  };
+
+  const headers = new Headers({
+    'Content-Type': 'application/json',
+    Authorization: params.authToken,
+  });
+
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(`removeCohost => ${resp.status} ${text}`);
+  }
+}
+
+/**
+ * Ejects a speaker by their session (POST /audiospace/stream/eject).
+ * Used by co-hosts, who don't own the Janus room and so can't pass its IDs like the host does.
+ */
+export async function ejectSpeaker(params: {
+  broadcastId: string;
+  sessionUUID: string;
+  chatToken: string;
+  authToken: string;
+}): Promise<void> {
+  const url = 'https://guest.pscp.tv/api/v1/audiospace/stream/eject';
+
+  const body = {
+    ntpForBroadcasterFrame: '2208988800024000300',
+    ntpForLiveFrame: '2208988800024000300',
+    broadcast_id: params.broadcastId,
+    session_uuid: params.sessionUUID,
+    chat_token: params.chatToken,
+  };
+
+  const headers = new Headers({
+    'Content-Type': 'application/json',
+    Authorization: params.authToken,
+  });
+
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(`ejectSpeaker => ${resp.status} ${text}`);
+  }
+}
+
+/**
+ * Lists the co-hosts of a Space: every admin except the creator.
+ */
+export function getCohosts(audioSpace: AudioSpace): CohostInfo[] {
+  const creatorId = audioSpace.metadata.creator_results?.result?.rest_id;
+  return (audioSpace.participants?.admins ?? [])
+    .filter((admin) => admin.user_results?.rest_id !== creatorId)
+    .map((admin) => ({
+      userId: admin.user_results?.rest_id,
+      username: admin.twitter_screen_name,
+      displayName: admin.display_name,
+    }));
+}
+
 /**
  * Common chat events helper. Attaches listeners to a ChatClient, then re-emits them
  * through a given EventEmitter (e.g. Space or SpaceParticipant).
@@ -493,7 +755,7 @@ export async function unmuteSpeaker(params: {
 export function setupCommonChatEvents(
   chatClient: ChatClient,
   logger: Logger,
-  emitter: EventEmitter,
+  emitter: TypedEventEmitter<SpaceEvents>,
 ): void {
   // Occupancy updates
   chatClient.on('occupancyUpdate', (upd) => {
@@ -524,4 +786,72 @@ export function setupCommonChatEvents(
     logger.debug('[ChatEvents] newSpeakerAccepted =>', info);
     emitter.emit('newSpeakerAccepted', info);
   });
+
+  // Text chat
+  chatClient.on('chatMessage', (message) => {
+    logger.debug('[ChatEvents] chatMessage =>', message);
+    emitter.emit('chatMessage', message);
+  });
+
+  // Presence
+  chatClient.on('userJoined', (user) => {
+    logger.debug('[ChatEvents] userJoined =>', user);
+    emitter.emit('userJoined', user);
+  });
+  chatClient.on('userLeft', (user) => {
+    logger.debug('[ChatEvents] userLeft =>', user);
+    emitter.emit('userLeft', user);
+  });
+
+  // Connection drops and recoveries
+  chatClient.on('reconnecting', (evt) => {
+    logger.debug('[ChatEvents] reconnecting =>', evt);
+    emitter.emit('reconnecting', evt);
+  });
+  chatClient.on('reconnected', (evt) => {
+    logger.debug('[ChatEvents] reconnected =>', evt);
+    emitter.emit('reconnected', evt);
+  });
+  chatClient.on('reconnectFailed', (err) => {
+    logger.debug('[ChatEvents] reconnectFailed =>', err);
+    emitter.emit('reconnectFailed', err);
+  });
+}
+
+/**
+ * Runs a task until it succeeds, waiting with exponential backoff between attempts.
+ * onRetry is called before each wait. Throws the last error once maxAttempts is exhausted.
+ * Returns the number of attempts it took, or undefined if isCancelled returned true,
+ * which is checked before every attempt (e.g. because the Space was stopped meanwhile).
+ */
+export async function retryWithBackoff(
+  task: () => Promise<void>,
+  options: ReconnectOptions | undefined,
+  onRetry: (attempt: number, delayMs: number) => void,
+  isCancelled: () => boolean = () => false,
+): Promise<number | undefined> {
+  const maxAttempts = options?.maxAttempts ?? 10;
+  const initialDelayMs = options?.initialDelayMs ?? 1000;
+  const maxDelayMs = options?.maxDelayMs ?? 30_000;
+
+  for (let attempt = 1; ; attempt++) {
+    if (isCancelled()) return undefined;
+    const delayMs = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    onRetry(attempt, delayMs);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    if (isCancelled()) return undefined;
+    try {
+      await task();
+      return attempt;
+    } catch (err) {
+      if (attempt >= maxAttempts) {
+        throw err;
+      }
+    }
+  }
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
 }
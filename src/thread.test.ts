@@ -0,0 +1,139 @@
+import { CookieJar } from 'tough-cookie';
+import { TwitterAuth } from './auth';
+import { ThreadPostError } from './errors';
+import { RateLimiter } from './rate-limit';
+import { getWeightedLength, sendThread, splitThreadText } from './thread';
+
+function fakeAuth(): TwitterAuth {
+  const jar = new CookieJar();
+  const scheduler = new RateLimiter();
+  return {
+    bearerToken: 'bearer',
+    cookieJar: () => jar,
+    isLoggedIn: async () => true,
+    installTo: () => Promise.resolve(),
+    rateLimitScheduler: () => scheduler,
+    fetch: (input: RequestInfo | URL, init?: RequestInit) =>
+      global.fetch(input, init),
+  } as unknown as TwitterAuth;
+}
+
+function createdTweet(id: string, text: string) {
+  return {
+    data: {
+      create_tweet: {
+        tweet_results: {
+          result: {
+            __typename: 'Tweet',
+            rest_id: id,
+            core: {
+              user_results: {
+                result: { legacy: { name: 'Test', screen_name: 'test' } },
+              },
+            },
+            legacy: { full_text: text, conversation_id_str: '1' },
+          },
+        },
+      },
+    },
+  };
+}
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+test('weighted length counts urls and wide characters', () => {
+  expect(getWeightedLength('hello')).toEqual(5);
+  expect(getWeightedLength('see https://example.com/a/very/long/path')).toEqual(
+    27,
+  );
+  expect(getWeightedLength('日本')).toEqual(4);
+});
+
+test('thread text is split at sentence boundaries', () => {
+  const sentence = `${'word '.repeat(20).trim()}.`;
+  const chunks = splitThreadText(`${sentence} ${sentence} ${sentence}`, 210);
+
+  expect(chunks).toEqual([`${sentence} ${sentence}`, sentence]);
+  expect(splitThreadText('a'.repeat(300))).toEqual([
+    'a'.repeat(280),
+    'a'.repeat(20),
+  ]);
+});
+
+test('thread text that fits is left unchanged', () => {
+  for (const text of [
+    'Read https://example.com/a.html now',
+    'Version 1.5 is out, and it only costs $3.99',
+    'Line one\n\nLine two',
+  ]) {
+    expect(splitThreadText(text)).toEqual([text]);
+  }
+});
+
+test('thread text is not split inside urls, decimals or paragraphs', () => {
+  const filler = `${'word '.repeat(12).trim()}.`;
+  const text = `Read https://example.com/a.html now. Version 1.5 costs $3.99.\n\nLine two. ${filler}`;
+  const chunks = splitThreadText(text, 100);
+
+  expect(chunks).toEqual([
+    'Read https://example.com/a.html now. Version 1.5 costs $3.99.\n\nLine two.',
+    filler,
+  ]);
+});
+
+test('thread tweets reply to each other', async () => {
+  const replies: (string | undefined)[] = [];
+  let nextId = 100;
+  global.fetch = jest.fn(
+    async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const { variables } = JSON.parse(init?.body as string);
+      replies.push(variables.reply?.in_reply_to_tweet_id);
+      const id = `${nextId++}`;
+      return new Response(
+        JSON.stringify(createdTweet(id, variables.tweet_text)),
+      );
+    },
+  ) as typeof fetch;
+
+  const tweets = await sendThread(['first', 'second', 'third'], fakeAuth(), {
+    replyToTweetId: '1',
+  });
+
+  expect(tweets.map((tweet) => tweet.id)).toEqual(['100', '101', '102']);
+  expect(tweets.map((tweet) => tweet.text)).toEqual([
+    'first',
+    'second',
+    'third',
+  ]);
+  expect(replies).toEqual(['1', '100', '101']);
+});
+
+test('partially posted threads are rolled back', async () => {
+  const deleted: string[] = [];
+  let created = 0;
+  global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+    const { variables } = JSON.parse(init?.body as string);
+    if (String(url).endsWith('/DeleteTweet')) {
+      deleted.push(variables.tweet_id);
+      return new Response('{}');
+    }
+
+    if (++created === 3) {
+      return new Response('Over capacity', { status: 503 });
+    }
+    return new Response(
+      JSON.stringify(createdTweet(`${created}`, variables.tweet_text)),
+    );
+  }) as typeof fetch;
+
+  const error = await sendThread(['a', 'b', 'c'], fakeAuth()).catch((e) => e);
+
+  expect(error).toBeInstanceOf(ThreadPostError);
+  expect(error.postedTweets).toHaveLength(2);
+  expect(error.rolledBack).toBeTruthy();
+  expect(deleted).toEqual(['2', '1']);
+});
@@ -0,0 +1,290 @@
+import { TwitterAuth } from './auth';
+import { ThreadPostError } from './errors';
+import { MediaAttachment, resolveMediaIds } from './media';
+import { parseTimelineEntryItemContentRaw } from './timeline-v2';
+import {
+  createCreateTweetRequest,
+  deleteTweet,
+  getTweet,
+  Tweet,
+} from './tweets';
+
+/**
+ * The maximum weighted length of a tweet.
+ */
+export const maxTweetLength = 280;
+
+/**
+ * The weighted length every URL counts as, regardless of its actual length.
+ */
+const urlLength = 23;
+
+/**
+ * Code point ranges that count as a single character. Everything else, such as
+ * CJK characters and emoji, counts as two.
+ */
+const singleWeightRanges: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+const urlPattern = /https?:\/\/\S+/g;
+
+/**
+ * A sentence ends at terminal punctuation followed by whitespace or the end of the
+ * text, or at a line break. Punctuation inside URLs, decimals and prices is never
+ * followed by whitespace, so it does not end a sentence.
+ */
+const sentencePattern = /([\s\S]*?(?:[.!?]+["')\]]*(?=\s|$)|(?=\n)|$))(\s*)/g;
+
+/**
+ * One part of a thread. Text that is too long for a single tweet is split into
+ * several tweets at sentence boundaries.
+ */
+export type ThreadPart =
+  | string
+  | {
+      text: string;
+
+      /**
+       * Media to attach to the part's first tweet.
+       */
+      media?: MediaAttachment[];
+    };
+
+export interface ThreadOptions {
+  /**
+   * The ID of a tweet to post the thread in reply to.
+   */
+  replyToTweetId: string;
+
+  /**
+   * Whether to delete the tweets that were already posted if a later tweet
+   * fails. Defaults to `true`.
+   */
+  rollbackOnFailure: boolean;
+}
+
+/**
+ * Computes the length of a text as Twitter counts it towards the character limit.
+ * URLs count as 23 characters, and CJK characters and emoji count as two.
+ * @param text The text to measure.
+ * @returns The weighted length.
+ */
+export function getWeightedLength(text: string): number {
+  let length = 0;
+  const withoutUrls = text.replace(urlPattern, () => {
+    length += urlLength;
+    return '';
+  });
+
+  for (const char of withoutUrls) {
+    const codePoint = char.codePointAt(0) as number;
+    const isSingleWeight = singleWeightRanges.some(
+      ([start, end]) => codePoint >= start && codePoint <= end,
+    );
+    length += isSingleWeight ? 1 : 2;
+  }
+
+  return length;
+}
+
+/**
+ * Splits a text into tweet-sized chunks, preferring sentence boundaries, then
+ * word boundaries. Text that already fits is returned unchanged, and the original
+ * whitespace between the pieces of a chunk is kept.
+ * @param text The text to split.
+ * @param maxLength The maximum weighted length of each chunk. Defaults to 280.
+ * @returns The chunks, in order.
+ */
+export function splitThreadText(
+  text: string,
+  maxLength = maxTweetLength,
+): string[] {
+  if (!text.trim()) {
+    return [];
+  }
+  if (getWeightedLength(text) <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let separator = '';
+
+  for (const piece of splitPieces(text.trim(), maxLength)) {
+    const candidate = current
+      ? `${current}${separator}${piece.text}`
+      : piece.text;
+    if (getWeightedLength(candidate) <= maxLength) {
+      current = candidate;
+    } else {
+      if (current) {
+        chunks.push(current);
+      }
+      current = piece.text;
+    }
+    separator = piece.separator;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Posts a thread, each tweet replying to the previous one. All media is
+ * uploaded before the first tweet is posted.
+ * @param parts The parts of the thread, in order.
+ * @param auth The authentication object.
+ * @param options Options for the thread.
+ * @returns Every tweet that was posted, in order.
+ * @throws {@link ThreadPostError} if a tweet could not be posted.
+ */
+export async function sendThread(
+  parts: ThreadPart[],
+  auth: TwitterAuth,
+  options?: Partial<ThreadOptions>,
+): Promise<Tweet[]> {
+  const tweets: { text: string; media?: MediaAttachment[] }[] = [];
+  for (const part of parts) {
+    const { text, media }: Exclude<ThreadPart, string> =
+      typeof part === 'string' ? { text: part } : part;
+    const chunks = splitThreadText(text);
+    const mediaIds =
+      media && media.length > 0 ? await resolveMediaIds(media, auth) : [];
+
+    chunks.forEach((chunk, i) => {
+      tweets.push({
+        text: chunk,
+        media:
+          i === 0 && mediaIds.length > 0
+            ? mediaIds.map((mediaId) => ({ mediaId }))
+            : undefined,
+      });
+    });
+  }
+
+  const posted: Tweet[] = [];
+  let replyToTweetId = options?.replyToTweetId;
+  try {
+    for (const { text, media } of tweets) {
+      const response = await createCreateTweetRequest(
+        text,
+        auth,
+        replyToTweetId,
+        media,
+      );
+      const tweet = await parseCreatedTweet(await response.json(), auth);
+      posted.push(tweet);
+      replyToTweetId = tweet.id;
+    }
+  } catch (err) {
+    const rolledBack =
+      (options?.rollbackOnFailure ?? true) &&
+      (await rollback(posted, auth)) === posted.length;
+
+    throw new ThreadPostError(err as Error, posted, rolledBack);
+  }
+
+  return posted;
+}
+
+async function parseCreatedTweet(data: any, auth: TwitterAuth) {
+  const tweetResults = data?.data?.create_tweet?.tweet_results;
+  const id: string | undefined = tweetResults?.result?.rest_id;
+  if (id == null) {
+    throw new Error(
+      `Tweet was not created: ${JSON.stringify(data?.errors ?? data)}`,
+    );
+  }
+
+  const tweet =
+    parseTimelineEntryItemContentRaw({ tweet_results: tweetResults }, id) ??
+    (await getTweet(id, auth));
+  if (tweet == null) {
+    throw new Error(`Created tweet ${id} could not be parsed.`);
+  }
+
+  return tweet;
+}
+
+/**
+ * Deletes posted tweets, newest first.
+ * @returns The number of tweets that were deleted.
+ */
+async function rollback(tweets: Tweet[], auth: TwitterAuth) {
+  let deleted = 0;
+  for (const tweet of [...tweets].reverse()) {
+    try {
+      await deleteTweet(tweet.id as string, auth);
+      deleted++;
+    } catch {
+      // Keep deleting the rest; the caller learns the thread was not fully rolled back
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Cuts a text into sentences, or words and word fragments where a sentence is too
+ * long for one tweet. Each piece keeps the whitespace that followed it.
+ */
+function splitPieces(
+  text: string,
+  maxLength: number,
+): { text: string; separator: string }[] {
+  const pieces: { text: string; separator: string }[] = [];
+
+  for (const [, sentence, separator] of text.matchAll(sentencePattern)) {
+    if (!sentence) continue;
+
+    if (getWeightedLength(sentence) <= maxLength) {
+      pieces.push({ text: sentence, separator });
+      continue;
+    }
+
+    // The sentence does not fit in a tweet on its own, so fall back to words
+    const words = sentence.split(/(\s+)/);
+    for (let i = 0; i < words.length; i += 2) {
+      const wordSeparator = words[i + 1] ?? separator;
+      if (getWeightedLength(words[i]) <= maxLength) {
+        pieces.push({ text: words[i], separator: wordSeparator });
+        continue;
+      }
+
+      const fragments = splitWord(words[i], maxLength);
+      fragments.forEach((fragment, j) => {
+        pieces.push({
+          text: fragment,
+          separator: j === fragments.length - 1 ? wordSeparator : '',
+        });
+      });
+    }
+  }
+
+  return pieces;
+}
+
+function splitWord(word: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of word) {
+    if (getWeightedLength(current + char) > maxLength) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
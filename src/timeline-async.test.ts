@@ -0,0 +1,98 @@
+import {
+  FetchLists,
+  FetchTweets,
+  getListTimeline,
+  getTweetTimeline,
+  TimelineCheckpoint,
+} from './timeline-async';
+import { TwitterList } from './timeline-list';
+import { Tweet } from './tweets';
+
+const pages: Record<string, { ids: string[]; next?: string }> = {
+  start: { ids: ['1', '2', '3'], next: 'page2' },
+  page2: { ids: ['4', '5', '6'], next: 'page3' },
+  page3: { ids: ['7'] },
+};
+
+const fetchPage: FetchTweets = async (_query, _maxTweets, cursor) => {
+  const page = pages[cursor ?? 'start'];
+  return {
+    tweets: page.ids.map((id) => ({ id } as Tweet)),
+    next: page.next,
+  };
+};
+
+async function collect(generator: AsyncGenerator<Tweet, void>) {
+  const ids: string[] = [];
+  for await (const tweet of generator) {
+    ids.push(tweet.id as string);
+  }
+
+  return ids;
+}
+
+test('timeline reports a checkpoint after each item', async () => {
+  const checkpoints: TimelineCheckpoint[] = [];
+  const ids = await collect(
+    getTweetTimeline('query', 5, fetchPage, {
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(checkpoint);
+      },
+    }),
+  );
+
+  expect(ids).toEqual(['1', '2', '3', '4', '5']);
+  expect(checkpoints[2]).toEqual({ cursor: undefined, offset: 3, count: 3 });
+  expect(checkpoints[4]).toEqual({ cursor: 'page2', offset: 2, count: 5 });
+});
+
+test('timeline resumes exactly where a checkpoint left off', async () => {
+  const first = getTweetTimeline('query', 10, fetchPage);
+  const seen: string[] = [];
+  for await (const tweet of first) {
+    seen.push(tweet.id as string);
+    if (seen.length === 4) break;
+  }
+
+  const resumed = await collect(
+    getTweetTimeline('query', 10, fetchPage, {
+      resumeFrom: first.checkpoint,
+    }),
+  );
+
+  expect(seen).toEqual(['1', '2', '3', '4']);
+  expect(resumed).toEqual(['5', '6', '7']);
+});
+
+test('resumed timeline counts items from earlier runs', async () => {
+  const timeline = getTweetTimeline('query', 5, fetchPage, {
+    resumeFrom: { cursor: 'page2', offset: 1, count: 4 },
+  });
+
+  expect(await collect(timeline)).toEqual(['5']);
+  expect(timeline.checkpoint).toEqual({
+    cursor: 'page2',
+    offset: 2,
+    count: 5,
+  });
+});
+
+test('list timelines page through lists the same way', async () => {
+  const fetchLists: FetchLists = async (query, maxLists, cursor) => {
+    const { tweets, next } = await fetchPage(query, maxLists, cursor);
+    return { lists: tweets.map(({ id }) => ({ id } as TwitterList)), next };
+  };
+
+  const ids: string[] = [];
+  const timeline = getListTimeline('query', 4, fetchLists);
+  for await (const list of timeline) {
+    ids.push(list.id);
+  }
+
+  expect(ids).toEqual(['1', '2', '3', '4']);
+  expect(timeline.checkpoint).toEqual({
+    cursor: 'page2',
+    offset: 1,
+    count: 4,
+  });
+});
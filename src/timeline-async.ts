@@ -1,4 +1,5 @@
 import { Profile } from './profile';
+import { TwitterList } from './timeline-list';
 import { Tweet } from './tweets';
 
 export interface FetchProfilesResponse {
@@ -23,68 +24,206 @@ export type FetchTweets = (
   cursor: string | undefined,
 ) => Promise<FetchTweetsResponse>;
 
-export async function* getUserTimeline(
+export interface FetchListsResponse {
+  lists: TwitterList[];
+  next?: string;
+}
+
+export type FetchLists = (
+  query: string,
+  maxLists: number,
+  cursor: string | undefined,
+) => Promise<FetchListsResponse>;
+
+/**
+ * The progress of a timeline crawl, which can be used to resume it later.
+ */
+export interface TimelineCheckpoint {
+  /**
+   * The cursor of the page currently being read, or `undefined` for the first page.
+   */
+  cursor?: string;
+
+  /**
+   * The number of items of the current page that have already been yielded.
+   */
+  offset: number;
+
+  /**
+   * The total number of items yielded so far, including those of resumed runs.
+   */
+  count: number;
+}
+
+export interface TimelineOptions {
+  /**
+   * A checkpoint from a previous crawl to continue from. The crawl still stops once
+   * the checkpoint's `count` reaches the maximum number of items.
+   */
+  resumeFrom: TimelineCheckpoint;
+
+  /**
+   * Called with the crawl's progress once the consumer has moved past each item, so a
+   * persisted checkpoint never skips an item that was not fully handled.
+   */
+  onCheckpoint: (checkpoint: TimelineCheckpoint) => void | Promise<void>;
+}
+
+/**
+ * An async generator over a timeline that reports how far it has progressed.
+ */
+export type TimelineGenerator<T> = AsyncGenerator<T, void> & {
+  /**
+   * The progress of the crawl, including the item that was yielded last.
+   */
+  readonly checkpoint: TimelineCheckpoint;
+};
+
+export function getUserTimeline(
   query: string,
   maxProfiles: number,
   fetchFunc: FetchProfiles,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Profile> {
+  const progress = createProgress(options);
+  return withCheckpoint(
+    userTimeline(query, maxProfiles, fetchFunc, progress, options),
+    progress,
+  );
+}
+
+export function getTweetTimeline(
+  query: string,
+  maxTweets: number,
+  fetchFunc: FetchTweets,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  const progress = createProgress(options);
+  return withCheckpoint(
+    itemTimeline(
+      query,
+      maxTweets,
+      fetchFunc,
+      (page) => page.tweets,
+      progress,
+      options,
+    ),
+    progress,
+  );
+}
+
+export function getListTimeline(
+  query: string,
+  maxLists: number,
+  fetchFunc: FetchLists,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<TwitterList> {
+  const progress = createProgress(options);
+  return withCheckpoint(
+    itemTimeline(
+      query,
+      maxLists,
+      fetchFunc,
+      (page) => page.lists,
+      progress,
+      options,
+    ),
+    progress,
+  );
+}
+
+async function* userTimeline(
+  query: string,
+  maxProfiles: number,
+  fetchFunc: FetchProfiles,
+  progress: TimelineCheckpoint,
+  options?: Partial<TimelineOptions>,
 ): AsyncGenerator<Profile, void> {
-  let nProfiles = 0;
-  let cursor: string | undefined = undefined;
   let consecutiveEmptyBatches = 0;
-  while (nProfiles < maxProfiles) {
+  while (progress.count < maxProfiles) {
     const batch: FetchProfilesResponse = await fetchFunc(
       query,
       maxProfiles,
-      cursor,
+      progress.cursor,
     );
 
     const { profiles, next } = batch;
-    cursor = next;
 
     if (profiles.length === 0) {
       consecutiveEmptyBatches++;
       if (consecutiveEmptyBatches > 5) break;
     } else consecutiveEmptyBatches = 0;
 
-    for (const profile of profiles) {
-      if (nProfiles < maxProfiles) yield profile;
-      else break;
-      nProfiles++;
+    for (const profile of profiles.slice(progress.offset)) {
+      if (progress.count >= maxProfiles) break;
+
+      progress.offset++;
+      progress.count++;
+      yield profile;
+      await options?.onCheckpoint?.({ ...progress });
     }
 
-    if (!next) break;
+    if (!next || progress.count >= maxProfiles) break;
+
+    progress.cursor = next;
+    progress.offset = 0;
   }
 }
 
-export async function* getTweetTimeline(
+/**
+ * Reads a paginated timeline until it runs out or maxItems have been yielded.
+ * @param getItems Picks the items out of a fetched page.
+ */
+async function* itemTimeline<T, P extends { next?: string }>(
   query: string,
-  maxTweets: number,
-  fetchFunc: FetchTweets,
-): AsyncGenerator<Tweet, void> {
-  let nTweets = 0;
-  let cursor: string | undefined = undefined;
-  while (nTweets < maxTweets) {
-    const batch: FetchTweetsResponse = await fetchFunc(
-      query,
-      maxTweets,
-      cursor,
-    );
-
-    const { tweets, next } = batch;
-
-    if (tweets.length === 0) {
+  maxItems: number,
+  fetchFunc: (
+    query: string,
+    maxItems: number,
+    cursor: string | undefined,
+  ) => Promise<P>,
+  getItems: (page: P) => T[],
+  progress: TimelineCheckpoint,
+  options?: Partial<TimelineOptions>,
+): AsyncGenerator<T, void> {
+  while (progress.count < maxItems) {
+    const page = await fetchFunc(query, maxItems, progress.cursor);
+    const items = getItems(page);
+    if (items.length === 0) {
       break;
     }
 
-    for (const tweet of tweets) {
-      if (nTweets < maxTweets) {
-        cursor = next;
-        yield tweet;
-      } else {
-        break;
-      }
+    for (const item of items.slice(progress.offset)) {
+      if (progress.count >= maxItems) break;
 
-      nTweets++;
+      progress.offset++;
+      progress.count++;
+      yield item;
+      await options?.onCheckpoint?.({ ...progress });
     }
+
+    if (!page.next || progress.count >= maxItems) break;
+
+    progress.cursor = page.next;
+    progress.offset = 0;
   }
 }
+
+function createProgress(
+  options?: Partial<TimelineOptions>,
+): TimelineCheckpoint {
+  return {
+    cursor: options?.resumeFrom?.cursor,
+    offset: options?.resumeFrom?.offset ?? 0,
+    count: options?.resumeFrom?.count ?? 0,
+  };
+}
+
+function withCheckpoint<T>(
+  generator: AsyncGenerator<T, void>,
+  progress: TimelineCheckpoint,
+): TimelineGenerator<T> {
+  return Object.defineProperty(generator, 'checkpoint', {
+    get: () => ({ ...progress }),
+  }) as TimelineGenerator<T>;
+}
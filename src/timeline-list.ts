@@ -1,5 +1,9 @@
 import { QueryTweetsResponse } from './timeline-v1';
-import { parseAndPush, TimelineEntryRaw } from './timeline-v2';
+import {
+  parseAndPush,
+  TimelineEntryRaw,
+  TimelineUserResultRaw,
+} from './timeline-v2';
 import { Tweet } from './tweets';
 
 export interface ListTimeline {
@@ -71,3 +75,123 @@ export function parseListTimelineTweets(
 
   return { tweets, next: bottomCursor, previous: topCursor };
 }
+
+/**
+ * A Twitter list.
+ */
+export interface TwitterList {
+  id: string;
+  name: string;
+  description?: string;
+  isPrivate: boolean;
+  memberCount?: number;
+  subscriberCount?: number;
+  createdAt?: Date;
+  ownerId?: string;
+  ownerUsername?: string;
+
+  /**
+   * Whether the current user is subscribed to the list.
+   */
+  following?: boolean;
+}
+
+export interface ListResultRaw {
+  id_str?: string;
+  name?: string;
+  description?: string;
+  mode?: string;
+  member_count?: number;
+  subscriber_count?: number;
+  created_at?: number;
+  following?: boolean;
+  user_results?: {
+    result?: TimelineUserResultRaw;
+  };
+}
+
+export interface ListEntryRaw {
+  entryId: string;
+  content?: {
+    cursorType?: string;
+    value?: string;
+    itemContent?: {
+      list?: ListResultRaw;
+    };
+  };
+}
+
+export interface ListOwnershipsTimeline {
+  data?: {
+    user?: {
+      result?: {
+        timeline?: {
+          timeline?: {
+            instructions?: {
+              entries?: ListEntryRaw[];
+              type?: string;
+            }[];
+          };
+        };
+      };
+    };
+  };
+}
+
+export interface QueryListsResponse {
+  lists: TwitterList[];
+  next?: string;
+  previous?: string;
+}
+
+export function parseList(list: ListResultRaw): TwitterList | null {
+  if (!list.id_str || list.name == null) {
+    return null;
+  }
+
+  const owner = list.user_results?.result;
+  return {
+    id: list.id_str,
+    name: list.name,
+    description: list.description || undefined,
+    isPrivate: list.mode?.toLowerCase() === 'private',
+    memberCount: list.member_count,
+    subscriberCount: list.subscriber_count,
+    createdAt: list.created_at != null ? new Date(list.created_at) : undefined,
+    ownerId: owner?.rest_id,
+    ownerUsername: owner?.legacy?.screen_name,
+    following: list.following,
+  };
+}
+
+export function parseListOwnershipsTimeline(
+  timeline: ListOwnershipsTimeline,
+): QueryListsResponse {
+  let bottomCursor: string | undefined;
+  let topCursor: string | undefined;
+  const lists: TwitterList[] = [];
+  const instructions =
+    timeline.data?.user?.result?.timeline?.timeline?.instructions ?? [];
+  for (const instruction of instructions) {
+    for (const entry of instruction.entries ?? []) {
+      const entryContent = entry.content;
+      if (!entryContent) continue;
+
+      if (entryContent.cursorType === 'Bottom') {
+        bottomCursor = entryContent.value;
+        continue;
+      } else if (entryContent.cursorType === 'Top') {
+        topCursor = entryContent.value;
+        continue;
+      }
+
+      const raw = entryContent.itemContent?.list;
+      const list = raw ? parseList(raw) : null;
+      if (list) {
+        lists.push(list);
+      }
+    }
+  }
+
+  return { lists, next: bottomCursor, previous: topCursor };
+}
@@ -624,3 +624,53 @@ test('scraper can get article using getArticle', async () => {
   expect(article).not.toBeNull();
   expect(article?.title).toMatch(/Introducing Articles on X/);
 }, 30000);
+
+test('scraper can unlike a tweet', async () => {
+  const scraper = await getScraper();
+  const tweetId = '1776276954435481937'; // Use a real tweet ID for testing
+
+  await scraper.likeTweet(tweetId);
+  await expect(scraper.unlikeTweet(tweetId)).resolves.not.toThrow();
+}, 30000);
+
+test('scraper can undo a retweet', async () => {
+  const scraper = await getScraper();
+  const tweetId = '1776276954435481937'; // Use a real tweet ID for testing
+
+  await scraper.retweet(tweetId);
+  await expect(scraper.unretweet(tweetId)).resolves.not.toThrow();
+}, 30000);
+
+test('scraper can unfollow user', async () => {
+  const scraper = await getScraper();
+  const username = 'elonmusk'; // Use a real username for testing
+
+  await expect(scraper.unfollowUser(username)).resolves.not.toThrow();
+}, 30000);
+
+test('scraper can delete a tweet', async () => {
+  const scraper = await getScraper();
+  const response = await scraper.sendTweet(
+    `Automated delete test at ${Date.now()}`,
+  );
+  const data = await response.json();
+  const tweetId = data?.data?.create_tweet?.tweet_results?.result?.rest_id;
+  expect(tweetId).toBeDefined();
+
+  await expect(scraper.deleteTweet(tweetId)).resolves.not.toThrow();
+}, 30000);
+
+test('scraper can bookmark a tweet and fetch bookmarks', async () => {
+  const scraper = await getScraper();
+  const tweetId = '1776276954435481937'; // Use a real tweet ID for testing
+
+  await scraper.bookmarkTweet(tweetId);
+
+  const bookmarks: Tweet[] = [];
+  for await (const tweet of scraper.fetchBookmarks(20)) {
+    bookmarks.push(tweet);
+  }
+  expect(bookmarks.some((tweet) => tweet.id === tweetId)).toBeTruthy();
+
+  await expect(scraper.removeBookmark(tweetId)).resolves.not.toThrow();
+}, 30000);
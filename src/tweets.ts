@@ -11,11 +11,17 @@ import {
   parseThreadedConversation,
   parseArticle,
   TimelineArticle,
+  TimelineInstruction,
 } from './timeline-v2';
-import { getTweetTimeline } from './timeline-async';
+import {
+  getTweetTimeline,
+  TimelineGenerator,
+  TimelineOptions,
+} from './timeline-async';
 import { apiRequestFactory } from './api-data';
 import { ListTimeline, parseListTimelineTweets } from './timeline-list';
 import { updateCookieJar } from './requests';
+import { MediaAttachment, resolveMediaIds } from './media';
 import {
   ApiV2Includes,
   MediaObjectV2,
@@ -30,6 +36,7 @@ import {
   TweetV2,
   UserV2,
 } from 'twitter-api-v2';
+import stringify from 'json-stable-stringify';
 
 export const defaultOptions = {
   expansions: [
@@ -463,7 +470,7 @@ export async function createCreateTweetRequest(
   text: string,
   auth: TwitterAuth,
   tweetId?: string,
-  mediaData?: { data: Buffer; mediaType: string }[],
+  mediaData?: MediaAttachment[],
   hideLinkPreview = false,
 ) {
   const onboardingTaskUrl = 'https://api.twitter.com/1.1/onboarding/task.json';
@@ -500,11 +507,7 @@ export async function createCreateTweetRequest(
   }
 
   if (mediaData && mediaData.length > 0) {
-    const mediaIds = await Promise.all(
-      mediaData.map(({ data, mediaType }) =>
-        uploadMedia(data, auth, mediaType),
-      ),
-    );
+    const mediaIds = await resolveMediaIds(mediaData, auth);
 
     variables.media.media_entities = mediaIds.map((id) => ({
       media_id: id,
@@ -582,7 +585,7 @@ export async function createCreateNoteTweetRequest(
   text: string,
   auth: TwitterAuth,
   tweetId?: string,
-  mediaData?: { data: Buffer; mediaType: string }[],
+  mediaData?: MediaAttachment[],
 ) {
   const onboardingTaskUrl = 'https://api.twitter.com/1.1/onboarding/task.json';
 
@@ -613,11 +616,7 @@ export async function createCreateNoteTweetRequest(
   };
 
   if (mediaData && mediaData.length > 0) {
-    const mediaIds = await Promise.all(
-      mediaData.map(({ data, mediaType }) =>
-        uploadMedia(data, auth, mediaType),
-      ),
-    );
+    const mediaIds = await resolveMediaIds(mediaData, auth);
 
     variables.media.media_entities = mediaIds.map((id) => ({
       media_id: id,
@@ -735,56 +734,80 @@ export function getTweets(
   user: string,
   maxTweets: number,
   auth: TwitterAuth,
-): AsyncGenerator<Tweet, void> {
-  return getTweetTimeline(user, maxTweets, async (q, mt, c) => {
-    const userIdRes = await getUserIdByScreenName(q, auth);
-
-    if (!userIdRes.success) {
-      throw userIdRes.err;
-    }
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    user,
+    maxTweets,
+    async (q, mt, c) => {
+      const userIdRes = await getUserIdByScreenName(q, auth);
+
+      if (!userIdRes.success) {
+        throw userIdRes.err;
+      }
 
-    const { value: userId } = userIdRes;
+      const { value: userId } = userIdRes;
 
-    return fetchTweets(userId, mt, c, auth);
-  });
+      return fetchTweets(userId, mt, c, auth);
+    },
+    options,
+  );
 }
 
 export function getTweetsByUserId(
   userId: string,
   maxTweets: number,
   auth: TwitterAuth,
-): AsyncGenerator<Tweet, void> {
-  return getTweetTimeline(userId, maxTweets, (q, mt, c) => {
-    return fetchTweets(q, mt, c, auth);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    userId,
+    maxTweets,
+    (q, mt, c) => {
+      return fetchTweets(q, mt, c, auth);
+    },
+    options,
+  );
 }
 
 export function getTweetsAndReplies(
   user: string,
   maxTweets: number,
   auth: TwitterAuth,
-): AsyncGenerator<Tweet, void> {
-  return getTweetTimeline(user, maxTweets, async (q, mt, c) => {
-    const userIdRes = await getUserIdByScreenName(q, auth);
-
-    if (!userIdRes.success) {
-      throw userIdRes.err;
-    }
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    user,
+    maxTweets,
+    async (q, mt, c) => {
+      const userIdRes = await getUserIdByScreenName(q, auth);
+
+      if (!userIdRes.success) {
+        throw userIdRes.err;
+      }
 
-    const { value: userId } = userIdRes;
+      const { value: userId } = userIdRes;
 
-    return fetchTweetsAndReplies(userId, mt, c, auth);
-  });
+      return fetchTweetsAndReplies(userId, mt, c, auth);
+    },
+    options,
+  );
 }
 
 export function getTweetsAndRepliesByUserId(
   userId: string,
   maxTweets: number,
   auth: TwitterAuth,
-): AsyncGenerator<Tweet, void> {
-  return getTweetTimeline(userId, maxTweets, (q, mt, c) => {
-    return fetchTweetsAndReplies(q, mt, c, auth);
-  });
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    userId,
+    maxTweets,
+    (q, mt, c) => {
+      return fetchTweetsAndReplies(q, mt, c, auth);
+    },
+    options,
+  );
 }
 
 export async function fetchLikedTweets(
@@ -1022,177 +1045,12 @@ export async function getTweetAnonymous(
   return parseTimelineEntryItemContentRaw(res.value.data, id);
 }
 
-interface MediaUploadResponse {
-  media_id_string: string;
-  size: number;
-  expires_after_secs: number;
-  image: {
-    image_type: string;
-    w: number;
-    h: number;
-  };
-}
-
-async function uploadMedia(
-  mediaData: Buffer,
-  auth: TwitterAuth,
-  mediaType: string,
-): Promise<string> {
-  const uploadUrl = 'https://upload.twitter.com/1.1/media/upload.json';
-
-  // Get authentication headers
-  const cookies = await auth.cookieJar().getCookies(uploadUrl);
-  const xCsrfToken = cookies.find((cookie) => cookie.key === 'ct0');
-  const headers = new Headers({
-    authorization: `Bearer ${(auth as any).bearerToken}`,
-    cookie: await auth.cookieJar().getCookieString(uploadUrl),
-    'x-csrf-token': xCsrfToken?.value as string,
-  });
-
-  // Detect if media is a video based on mediaType
-  const isVideo = mediaType.startsWith('video/');
-
-  if (isVideo) {
-    // Handle video upload using chunked media upload
-    const mediaId = await uploadVideoInChunks(mediaData, mediaType);
-    return mediaId;
-  } else {
-    // Handle image upload
-    const form = new FormData();
-    form.append('media', new Blob([mediaData], {
-      type: mediaType,
-    }));
-
-    const response = await fetch(uploadUrl, {
-      method: 'POST',
-      headers,
-      body: form,
-    });
-
-    await updateCookieJar(auth.cookieJar(), response.headers);
-
-    if (!response.ok) {
-      throw new Error(await response.text());
-    }
-
-    const data: MediaUploadResponse = await response.json();
-    return data.media_id_string;
-  }
-
-  // Function to upload video in chunks
-  async function uploadVideoInChunks(
-    mediaData: Buffer,
-    mediaType: string,
-  ): Promise<string> {
-    // Initialize upload
-    const initParams = new URLSearchParams();
-    initParams.append('command', 'INIT');
-    initParams.append('media_type', mediaType);
-    initParams.append('total_bytes', mediaData.length.toString());
-
-    const initResponse = await fetch(uploadUrl, {
-      method: 'POST',
-      headers,
-      body: initParams,
-    });
-
-    if (!initResponse.ok) {
-      throw new Error(await initResponse.text());
-    }
-
-    const initData = await initResponse.json();
-    const mediaId = initData.media_id_string;
-
-    // Append upload in chunks
-    const segmentSize = 5 * 1024 * 1024; // 5 MB per chunk
-    let segmentIndex = 0;
-    for (let offset = 0; offset < mediaData.length; offset += segmentSize) {
-      const chunk = mediaData.slice(offset, offset + segmentSize);
-
-      const appendForm = new FormData();
-      appendForm.append('command', 'APPEND');
-      appendForm.append('media_id', mediaId);
-      appendForm.append('segment_index', segmentIndex.toString());
-      appendForm.append('media', new Blob([chunk]));
-
-      const appendResponse = await fetch(uploadUrl, {
-        method: 'POST',
-        headers,
-        body: appendForm,
-      });
-
-      if (!appendResponse.ok) {
-        throw new Error(await appendResponse.text());
-      }
-
-      segmentIndex++;
-    }
-
-    // Finalize upload
-    const finalizeParams = new URLSearchParams();
-    finalizeParams.append('command', 'FINALIZE');
-    finalizeParams.append('media_id', mediaId);
-
-    const finalizeResponse = await fetch(uploadUrl, {
-      method: 'POST',
-      headers,
-      body: finalizeParams,
-    });
-
-    if (!finalizeResponse.ok) {
-      throw new Error(await finalizeResponse.text());
-    }
-
-    const finalizeData = await finalizeResponse.json();
-
-    // Check processing status for videos
-    if (finalizeData.processing_info) {
-      await checkUploadStatus(mediaId);
-    }
-
-    return mediaId;
-  }
-
-  // Function to check upload status
-  async function checkUploadStatus(mediaId: string): Promise<void> {
-    let processing = true;
-    while (processing) {
-      await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait 5 seconds
-
-      const statusParams = new URLSearchParams();
-      statusParams.append('command', 'STATUS');
-      statusParams.append('media_id', mediaId);
-
-      const statusResponse = await fetch(
-        `${uploadUrl}?${statusParams.toString()}`,
-        {
-          method: 'GET',
-          headers,
-        },
-      );
-
-      if (!statusResponse.ok) {
-        throw new Error(await statusResponse.text());
-      }
-
-      const statusData = await statusResponse.json();
-      const state = statusData.processing_info.state;
-
-      if (state === 'succeeded') {
-        processing = false;
-      } else if (state === 'failed') {
-        throw new Error('Video processing failed');
-      }
-    }
-  }
-}
-
 // Function to create a quote tweet
 export async function createQuoteTweetRequest(
   text: string,
   quotedTweetId: string,
   auth: TwitterAuth,
-  mediaData?: { data: Buffer; mediaType: string }[],
+  mediaData?: MediaAttachment[],
 ) {
   const onboardingTaskUrl = 'https://api.twitter.com/1.1/onboarding/task.json';
 
@@ -1226,11 +1084,7 @@ export async function createQuoteTweetRequest(
 
   // Handle media uploads if any media data is provided
   if (mediaData && mediaData.length > 0) {
-    const mediaIds = await Promise.all(
-      mediaData.map(({ data, mediaType }) =>
-        uploadMedia(data, auth, mediaType),
-      ),
-    );
+    const mediaIds = await resolveMediaIds(mediaData, auth);
 
     variables.media.media_entities = mediaIds.map((id) => ({
       media_id: id,
@@ -1403,11 +1257,213 @@ export async function retweet(
   }
 }
 
+/**
+ * Deletes a tweet with the given tweet ID.
+ * @param tweetId The ID of the tweet to delete.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the tweet is deleted.
+ */
+export async function deleteTweet(
+  tweetId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendTweetMutation(
+    'VaenaVgh5q5ih7kvyVjgtg/DeleteTweet',
+    { tweet_id: tweetId, dark_request: false },
+    auth,
+  );
+}
+
+/**
+ * Removes a like from the tweet with the given tweet ID.
+ * @param tweetId The ID of the tweet to unlike.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the like is removed.
+ */
+export async function unlikeTweet(
+  tweetId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendTweetMutation(
+    'ZYKSe-w7KEslx3JhSIk5LA/UnfavoriteTweet',
+    { tweet_id: tweetId },
+    auth,
+  );
+}
+
+/**
+ * Undoes a retweet of the tweet with the given tweet ID.
+ * @param tweetId The ID of the tweet that was retweeted.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the retweet is removed.
+ */
+export async function unretweet(
+  tweetId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendTweetMutation(
+    'iQtK4dl5hBmXewYZuEOKVw/DeleteRetweet',
+    { source_tweet_id: tweetId, dark_request: false },
+    auth,
+  );
+}
+
+/**
+ * Bookmarks the tweet with the given tweet ID.
+ * @param tweetId The ID of the tweet to bookmark.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the tweet is bookmarked.
+ */
+export async function bookmarkTweet(
+  tweetId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendTweetMutation(
+    'aoDbu3RHznuiSkQ9aNM67Q/CreateBookmark',
+    { tweet_id: tweetId },
+    auth,
+  );
+}
+
+/**
+ * Removes the bookmark of the tweet with the given tweet ID.
+ * @param tweetId The ID of the bookmarked tweet.
+ * @param auth The authentication object.
+ * @returns A promise that resolves when the bookmark is removed.
+ */
+export async function removeBookmark(
+  tweetId: string,
+  auth: TwitterAuth,
+): Promise<void> {
+  await sendTweetMutation(
+    'Wlmlj2-xzyS1GN3a6cj-mQ/DeleteBookmark',
+    { tweet_id: tweetId },
+    auth,
+  );
+}
+
+/**
+ * Sends a GraphQL mutation that acts on a single tweet.
+ * @param operation The operation's query ID and name, e.g. `<queryId>/DeleteTweet`.
+ * @param variables The mutation variables.
+ * @param auth The authentication object.
+ */
+async function sendTweetMutation(
+  operation: string,
+  variables: Record<string, unknown>,
+  auth: TwitterAuth,
+): Promise<void> {
+  if (!(await auth.isLoggedIn())) {
+    throw new Error('Scraper is not logged-in for tweet actions.');
+  }
+
+  const [queryId] = operation.split('/');
+  const res = await requestApi<{ errors?: { message: string }[] }>(
+    `https://twitter.com/i/api/graphql/${operation}`,
+    auth,
+    'POST',
+    undefined,
+    { variables, queryId },
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  // Mutations can fail with a 200 response that only contains errors
+  const errors = res.value?.errors;
+  if (errors && errors.length > 0) {
+    throw new Error(errors.map((error) => error.message).join('\n'));
+  }
+}
+
+interface BookmarkTimeline {
+  data?: {
+    bookmark_timeline_v2?: {
+      timeline?: {
+        instructions?: TimelineInstruction[];
+      };
+    };
+  };
+}
+
+export function fetchBookmarks(
+  maxTweets: number,
+  auth: TwitterAuth,
+  options?: Partial<TimelineOptions>,
+): TimelineGenerator<Tweet> {
+  return getTweetTimeline(
+    '',
+    maxTweets,
+    (_q, mt, c) => {
+      return fetchBookmarksPage(mt, c, auth);
+    },
+    options,
+  );
+}
+
+export async function fetchBookmarksPage(
+  maxTweets: number,
+  cursor: string | undefined,
+  auth: TwitterAuth,
+): Promise<QueryTweetsResponse> {
+  if (!(await auth.isLoggedIn())) {
+    throw new Error('Scraper is not logged-in for fetching bookmarks.');
+  }
+
+  if (maxTweets > 100) {
+    maxTweets = 100;
+  }
+
+  const variables: Record<string, any> = {
+    count: maxTweets,
+    includePromotedContent: false,
+  };
+
+  if (cursor != null && cursor != '') {
+    variables['cursor'] = cursor;
+  }
+
+  const features = addApiFeatures({
+    graphql_timeline_v2_bookmark_timeline: true,
+    longform_notetweets_inline_media_enabled: true,
+    responsive_web_enhance_cards_enabled: false,
+    responsive_web_twitter_article_tweet_consumption_enabled: false,
+    rweb_video_timestamps_enabled: true,
+  });
+
+  const params = new URLSearchParams();
+  params.set('variables', stringify(variables) ?? '');
+  params.set('features', stringify(features) ?? '');
+
+  const res = await requestApi<BookmarkTimeline>(
+    `https://twitter.com/i/api/graphql/tmd4ifV8RHltzn8ymGg1aw/Bookmarks?${params.toString()}`,
+    auth,
+  );
+
+  if (!res.success) {
+    throw res.err;
+  }
+
+  // Bookmarks share the user timeline's entry format
+  return parseTimelineTweetsV2({
+    data: {
+      user: {
+        result: {
+          timeline_v2: {
+            timeline: res.value.data?.bookmark_timeline_v2?.timeline,
+          },
+        },
+      },
+    },
+  });
+}
+
 export async function createCreateLongTweetRequest(
   text: string,
   auth: TwitterAuth,
   tweetId?: string,
-  mediaData?: { data: Buffer; mediaType: string }[],
+  mediaData?: MediaAttachment[],
 ) {
   // URL for the long tweet endpoint
   const url =
@@ -1442,11 +1498,7 @@ export async function createCreateLongTweetRequest(
   };
 
   if (mediaData && mediaData.length > 0) {
-    const mediaIds = await Promise.all(
-      mediaData.map(({ data, mediaType }) =>
-        uploadMedia(data, auth, mediaType),
-      ),
-    );
+    const mediaIds = await resolveMediaIds(mediaData, auth);
 
     variables.media.media_entities = mediaIds.map((id) => ({
       media_id: id,